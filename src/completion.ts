@@ -0,0 +1,509 @@
+import * as vscode from 'vscode';
+import {
+  type ChatCompletionRequest,
+  type ChatMessage,
+  normalizeMessagesLM,
+  selectHistoryWindow,
+  collectImageUrls,
+  convertOpenAIToolsToLM,
+  convertFunctionsToTools,
+  type Tool,
+} from './messages';
+import { verbose } from './log';
+import { getModel, hasLMApi, supportsImageInput } from './models';
+import { hasImagePartSupport, loadImage, validateImageUrl, type ImageData } from './images';
+import { trimChatHistory } from './history';
+import { getBridgeConfig } from './config';
+import { countPromptTokens, countTextTokens, createUsage, type TokenUsage } from './usage';
+import {
+  checkStructuredOutput,
+  getStructuredOutputSpec,
+  structuredOutputInstructions,
+  structuredOutputRepairPrompt,
+  type StructuredOutputSpec,
+} from './structured-output';
+import { buildModelOptions } from './model-options';
+import { createOutputLimiter, getOutputLimits, type OutputLimiter, type OutputLimits } from './output-limits';
+import type { OpenAIToolCall } from './types/openai-types';
+
+/**
+ * In-process model pipeline shared by every API surface (OpenAI, Anthropic, Gemini).
+ * Routes translate their request into a {@link ChatCompletionRequest}, then render the
+ * streamed events and {@link CompletionResult} in their own wire format.
+ */
+
+/**
+ * Writes an error in the caller's wire format. Mirrors the signature of `writeErrorResponse`.
+ */
+export type CompletionErrorWriter = (status: number, message: string, type: string, code: string, reason?: string) => void;
+
+export interface PreparedCompletion {
+  readonly model: vscode.LanguageModelChat;
+  readonly messages: vscode.LanguageModelChatMessage[];
+  readonly options: vscode.LanguageModelChatRequestOptions;
+  readonly limits: OutputLimits;
+  readonly structuredOutput?: StructuredOutputSpec;
+  readonly toolCount: number;
+  /** Prompt size, counted with the model's tokenizer in the background while the request is prepared and sent. */
+  readonly promptTokens: Promise<number>;
+  /** Response headers describing how the request was adapted (trimmed history, ignored params). */
+  readonly headers: Readonly<Record<string, string>>;
+}
+
+/**
+ * Receives output as it is produced. Without handlers the output is only returned at the end.
+ */
+export interface CompletionHandlers {
+  onText(text: string): void;
+  onToolCall(toolCall: OpenAIToolCall, index: number): void;
+}
+
+export interface CompletionResult {
+  readonly content: string;
+  readonly toolCalls: OpenAIToolCall[];
+  readonly finishReason: 'stop' | 'length' | 'tool_calls';
+  /** The requested stop sequence that ended the output, if one did. */
+  readonly stopSequence?: string;
+  readonly usage: TokenUsage;
+}
+
+export interface CompletionOptions {
+  /**
+   * Sends tool_choice `required` or a named function with `LanguageModelChatToolMode.Required`.
+   * Only the Anthropic route opts in (`any` / `tool`); elsewhere `required` behaves like `auto`.
+   */
+  readonly forceToolChoice?: boolean;
+  /** Skips history trimming so `promptTokens` reflects everything the client sent (count_tokens endpoints). */
+  readonly fullHistory?: boolean;
+}
+
+/**
+ * Resolves the requested model, writing 404/503 errors when it is unavailable.
+ */
+export async function resolveCompletionModel(
+  requestedModel: string | undefined,
+  writeError: CompletionErrorWriter
+): Promise<vscode.LanguageModelChat | undefined> {
+  const model = await getModel(false, requestedModel);
+  if (model) {
+    return model;
+  }
+
+  const hasLanguageModels = hasLMApi();
+  if (requestedModel && hasLanguageModels) {
+    writeError(404, 'model not found', 'invalid_request_error', 'model_not_found', 'not_found');
+  } else {
+    const reason = hasLanguageModels ? 'copilot_model_unavailable' : 'missing_language_model_api';
+    writeError(503, 'Copilot unavailable', 'server_error', 'copilot_unavailable', reason);
+  }
+  return undefined;
+}
+
+/**
+ * Validates the request against the model and builds the LM messages and request options.
+ * @returns undefined after writing a 400 when the request cannot be served by this model
+ */
+export async function prepareCompletion(
+  body: ChatCompletionRequest,
+  model: vscode.LanguageModelChat,
+  writeError: CompletionErrorWriter,
+  completionOptions: CompletionOptions = {}
+): Promise<PreparedCompletion | undefined> {
+  const headers: Record<string, string> = {};
+  const mergedTools = mergeTools(body);
+  const lmTools = convertOpenAIToolsToLM(mergedTools);
+  const history = completionOptions.fullHistory ? body.messages : await selectHistory(body, model, lmTools, headers);
+  // Only images in the kept history are loaded, so dropped turns cost nothing and cannot fail the request
+  const images = await loadImages(history, model, writeError);
+  if (!images) {
+    return undefined;
+  }
+  const messages = normalizeMessagesLM(history, images) as vscode.LanguageModelChatMessage[];
+  const { modelOptions, ignored } = buildModelOptions(model.vendor, body);
+  if (ignored.length > 0) {
+    headers['X-Bridge-Ignored-Params'] = ignored.join(', ');
+    verbose(`Ignored parameters for vendor ${model.vendor}: ${ignored.join(', ')}`);
+  }
+  const options: vscode.LanguageModelChatRequestOptions = {
+    ...(lmTools.length > 0 ? { tools: lmTools } : {}),
+    ...(lmTools.length > 0 && completionOptions.forceToolChoice && requiresToolCall(body) ? { toolMode: vscode.LanguageModelChatToolMode.Required } : {}),
+    ...(Object.keys(modelOptions).length > 0 ? { modelOptions } : {}),
+  };
+  verbose(`LM request via API model=${model.family || model.id || model.name || 'unknown'} tools=${lmTools.length} options=${JSON.stringify(modelOptions)}`);
+
+  return {
+    model,
+    messages,
+    options,
+    limits: getOutputLimits(body),
+    structuredOutput: getStructuredOutputSpec(body.response_format),
+    toolCount: lmTools.length,
+    promptTokens: countPromptTokens(model, messages, options.tools),
+    headers,
+  };
+}
+
+/**
+ * Sends the prepared request and reads the response, applying output limits and structured output.
+ * @param source - Cancelled by the caller on disconnect; cancelled here when an output limit is reached
+ * @param handlers - Incremental output callbacks; structured output is delivered in one piece once validated
+ * @returns undefined after writing a 422 when structured output could not be produced
+ */
+export async function runCompletion(
+  prepared: PreparedCompletion,
+  source: vscode.CancellationTokenSource,
+  writeError: CompletionErrorWriter,
+  handlers?: CompletionHandlers
+): Promise<CompletionResult | undefined> {
+  if (prepared.structuredOutput) {
+    return runStructuredCompletion(prepared, prepared.structuredOutput, source.token, writeError, handlers);
+  }
+
+  const { model } = prepared;
+  const limiter = createOutputLimiter(model, prepared.limits, () => {
+    verbose('Output limit reached; cancelling model request');
+    source.cancel();
+  });
+
+  const response = await model.sendRequest(prepared.messages, prepared.options, source.token);
+  let output: CollectedOutput;
+  try {
+    output = await collectOutput(response, source.token, limiter, handlers);
+  } finally {
+    disposeResponse(response);
+  }
+
+  const usage = createUsage(await prepared.promptTokens, await countTextTokens(model, outputText(output)));
+  const finishReason = selectFinishReason(output, limiter);
+  return {
+    ...output,
+    finishReason,
+    ...(finishReason === 'stop' && limiter.stopSequence !== undefined ? { stopSequence: limiter.stopSequence } : {}),
+    usage,
+  };
+}
+
+/**
+ * Text used to count completion tokens for a tool call (name plus JSON arguments).
+ */
+export function toolCallText(toolCall: OpenAIToolCall): string {
+  return `${toolCall.function.name}${toolCall.function.arguments}`;
+}
+
+interface CollectedOutput {
+  readonly content: string;
+  readonly toolCalls: OpenAIToolCall[];
+}
+
+/**
+ * Reads the LM stream. With handlers, content is emitted per chunk as produced;
+ * otherwise it is accumulated and returned as a whole.
+ */
+async function collectOutput(
+  response: vscode.LanguageModelChatResponse,
+  token: vscode.CancellationToken,
+  limiter: OutputLimiter | undefined,
+  handlers: CompletionHandlers | undefined
+): Promise<CollectedOutput> {
+  let content = '';
+  const toolCalls: OpenAIToolCall[] = [];
+
+  const addText = (text: string): void => {
+    if (!text) {
+      return;
+    }
+    content += text;
+    handlers?.onText(text);
+  };
+
+  for await (const part of response.stream) {
+    if (token.isCancellationRequested) {
+      break;
+    }
+
+    if (isToolCallPart(part)) {
+      const toolCall = createToolCall(part);
+      handlers?.onToolCall(toolCall, toolCalls.length);
+      toolCalls.push(toolCall);
+      continue;
+    }
+
+    // Streamed deltas are forwarded untouched: normalizing each chunk would trim the spaces between tokens
+    const text = extractTextContent(part);
+    if (text) {
+      addText(limiter ? await limiter.push(text) : text);
+    }
+
+    // Stop sequence or token cap reached; the limiter has already cancelled the upstream request
+    if (limiter?.done) {
+      break;
+    }
+  }
+  if (limiter) {
+    addText(await limiter.flush());
+  }
+
+  return { content, toolCalls };
+}
+
+type StructuredAttempt = CollectedOutput & { readonly usage: TokenUsage };
+
+/**
+ * Runs a json_object/json_schema request: appends format instructions, validates the output,
+ * and re-prompts with the validation errors up to `bridge.structuredOutputRetries` times.
+ * Tool calls are returned as-is since they are not the final answer. Output limits apply to each
+ * attempt; output cut short by a stop sequence or the token cap is returned unvalidated with that
+ * finish reason, as OpenAI does for JSON mode.
+ */
+async function runStructuredCompletion(
+  prepared: PreparedCompletion,
+  spec: StructuredOutputSpec,
+  token: vscode.CancellationToken,
+  writeError: CompletionErrorWriter,
+  handlers: CompletionHandlers | undefined
+): Promise<CompletionResult | undefined> {
+  const { model, options } = prepared;
+  const retries = getBridgeConfig().structuredOutputRetries;
+  let conversation = [...prepared.messages, vscode.LanguageModelChatMessage.User(structuredOutputInstructions(spec))];
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let errors: string[] = [];
+
+  const deliver = (attempt: StructuredAttempt, limiter: OutputLimiter): CompletionResult => {
+    if (attempt.content && attempt.toolCalls.length === 0) {
+      handlers?.onText(attempt.content);
+    }
+    attempt.toolCalls.forEach((toolCall, index) => handlers?.onToolCall(toolCall, index));
+    const finishReason = selectFinishReason(attempt, limiter);
+    return {
+      ...attempt,
+      finishReason,
+      ...(finishReason === 'stop' && limiter.stopSequence !== undefined ? { stopSequence: limiter.stopSequence } : {}),
+    };
+  };
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    // Each attempt gets its own source so a limit ends that attempt without cancelling the caller's request
+    const attemptSource = new vscode.CancellationTokenSource();
+    const linked = token.onCancellationRequested(() => attemptSource.cancel());
+    const limiter = createOutputLimiter(model, prepared.limits, () => {
+      verbose('Output limit reached; cancelling structured output attempt');
+      attemptSource.cancel();
+    });
+    let output: CollectedOutput;
+    try {
+      const response = await model.sendRequest(conversation, options, attemptSource.token);
+      try {
+        output = await collectOutput(response, attemptSource.token, limiter, undefined);
+      } finally {
+        disposeResponse(response);
+      }
+    } finally {
+      linked.dispose();
+      attemptSource.dispose();
+    }
+
+    // Every attempt is billed, so usage covers all of them
+    promptTokens += await countPromptTokens(model, conversation, options.tools);
+    completionTokens += await countTextTokens(model, outputText(output));
+    const usage = createUsage(promptTokens, completionTokens);
+
+    if (output.toolCalls.length > 0 || limiter.done || token.isCancellationRequested) {
+      return deliver({ ...output, usage }, limiter);
+    }
+
+    const check = checkStructuredOutput(output.content, spec);
+    if (check.ok) {
+      return deliver({ ...output, content: check.json, usage }, limiter);
+    }
+
+    errors = check.errors;
+    verbose(`Structured output attempt ${attempt + 1} invalid: ${errors.join('; ')}`);
+    conversation = [
+      ...conversation,
+      vscode.LanguageModelChatMessage.Assistant(output.content),
+      vscode.LanguageModelChatMessage.User(structuredOutputRepairPrompt(errors)),
+    ];
+  }
+
+  writeError(
+    422,
+    `model output failed ${spec.kind} validation: ${errors.join('; ')}`,
+    'invalid_response_error',
+    'structured_output_invalid'
+  );
+  return undefined;
+}
+
+/**
+ * Applies the configured history trimming.
+ * In `tokens` mode the dropped history is reported through response headers.
+ */
+async function selectHistory(
+  body: ChatCompletionRequest,
+  model: vscode.LanguageModelChat,
+  lmTools: vscode.LanguageModelChatTool[],
+  headers: Record<string, string>
+): Promise<readonly ChatMessage[]> {
+  const config = getBridgeConfig();
+  if (config.historyMode !== 'tokens') {
+    return selectHistoryWindow(body.messages, config.historyWindow);
+  }
+
+  const trimmed = await trimChatHistory(model, body.messages, lmTools, getOutputLimits(body).maxTokens);
+  headers['X-Bridge-History-Dropped'] = String(trimmed.droppedMessages);
+  headers['X-Bridge-History-Dropped-Tokens'] = String(trimmed.droppedTokens);
+  if (trimmed.droppedMessages > 0) {
+    verbose(`History trimmed to budget: dropped ${trimmed.droppedMessages} messages (${trimmed.droppedTokens} tokens)`);
+  }
+  return trimmed.items;
+}
+
+/**
+ * Loads the images in the kept history, rejecting image input the running VS Code or the selected model cannot
+ * take, and image URLs that cannot be loaded.
+ * @returns Image bytes by URL, or undefined after writing a 400
+ */
+async function loadImages(
+  messages: readonly ChatMessage[],
+  model: vscode.LanguageModelChat,
+  writeError: CompletionErrorWriter
+): Promise<ReadonlyMap<string, ImageData> | undefined> {
+  const images = new Map<string, ImageData>();
+  const imageUrls = collectImageUrls(messages);
+  if (imageUrls.length === 0) {
+    return images;
+  }
+
+  if (!hasImagePartSupport()) {
+    writeError(400, 'this VS Code version cannot send images to language models (no LanguageModelDataPart)', 'invalid_request_error', 'image_input_unsupported');
+    return undefined;
+  }
+  if (!supportsImageInput(model)) {
+    writeError(400, `model ${model.id} does not support image input`, 'invalid_request_error', 'model_not_vision_capable');
+    return undefined;
+  }
+
+  for (const url of imageUrls) {
+    const problem = validateImageUrl(url);
+    if (problem) {
+      writeError(400, `invalid image_url: ${problem}`, 'invalid_request_error', 'invalid_image_url');
+      return undefined;
+    }
+    if (images.has(url)) {
+      continue;
+    }
+    try {
+      images.set(url, await loadImage(url));
+    } catch (e) {
+      writeError(400, `invalid image_url: ${e instanceof Error ? e.message : String(e)}`, 'invalid_request_error', 'invalid_image_url');
+      return undefined;
+    }
+  }
+  return images;
+}
+
+/**
+ * Merges tools and deprecated functions, respecting tool_choice configuration.
+ * @param body - Chat completion request
+ * @returns Filtered array of tools to use
+ */
+function mergeTools(body: ChatCompletionRequest): Tool[] {
+  // Early exit for disabled tools
+  if (body.tool_choice === 'none' || body.function_call === 'none') {
+    return [];
+  }
+
+  const baseTools = body.tools ?? [];
+  const functionTools = convertFunctionsToTools(body.functions);
+  const combined = functionTools.length > 0 ? [...baseTools, ...functionTools] : baseTools;
+
+  // Handle specific tool selection
+  if (
+    body.tool_choice &&
+    typeof body.tool_choice === 'object' &&
+    'type' in body.tool_choice &&
+    body.tool_choice.type === 'function' &&
+    'function' in body.tool_choice &&
+    body.tool_choice.function &&
+    typeof body.tool_choice.function === 'object' &&
+    'name' in body.tool_choice.function
+  ) {
+    const fnName = body.tool_choice.function.name;
+    if (typeof fnName === 'string') {
+      return combined.filter((tool) => tool.function.name === fnName);
+    }
+  }
+
+  return combined;
+}
+
+/**
+ * True when tool_choice forces a call (`required` or a named function) rather than leaving it to the model.
+ */
+function requiresToolCall(body: ChatCompletionRequest): boolean {
+  return body.tool_choice === 'required' || (typeof body.tool_choice === 'object' && body.tool_choice.type === 'function');
+}
+
+function selectFinishReason(output: CollectedOutput, limiter: OutputLimiter): CompletionResult['finishReason'] {
+  if (output.toolCalls.length > 0) {
+    return 'tool_calls';
+  }
+  return limiter.finishReason ?? 'stop';
+}
+
+function outputText(output: CollectedOutput): string {
+  return output.content + output.toolCalls.map(toolCallText).join('');
+}
+
+function createToolCall(part: vscode.LanguageModelToolCallPart): OpenAIToolCall {
+  return {
+    id: part.callId,
+    type: 'function',
+    function: {
+      name: part.name,
+      arguments: JSON.stringify(part.input),
+    },
+  };
+}
+
+function isToolCallPart(part: unknown): part is vscode.LanguageModelToolCallPart {
+  return (
+    part !== null &&
+    typeof part === 'object' &&
+    'callId' in part &&
+    'name' in part &&
+    'input' in part
+  );
+}
+
+function extractTextContent(part: unknown): string {
+  if (typeof part === 'string') {
+    return part;
+  }
+
+  if (part !== null && typeof part === 'object' && 'value' in part) {
+    return String((part as { value: unknown }).value) || '';
+  }
+
+  return '';
+}
+
+/**
+ * Normalizes response content by removing markdown code block wrappers.
+ * Copilot may wrap JSON responses in ```json...``` blocks, which should be unwrapped
+ * to match standard OpenAI API behavior. Only the non-streaming chat completions route applies this;
+ * other routes return the model text untouched.
+ */
+export function normalizeContent(content: string): string {
+  // Remove markdown code block wrappers (```json ... ``` or ```...```)
+  const cleanedContent = content.replace(/^```(?:json|javascript|js)?\n?([\s\S]*?)\n?```$/gm, '$1');
+  return cleanedContent.trim();
+}
+
+function disposeResponse(response: vscode.LanguageModelChatResponse): void {
+  const disposable = response as { dispose?: () => void };
+  if (typeof disposable.dispose === 'function') {
+    disposable.dispose();
+  }
+}
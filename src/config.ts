@@ -2,14 +2,24 @@ import * as vscode from 'vscode';
 
 export const LOOPBACK_HOST = '127.0.0.1' as const;
 
+/**
+ * How conversation history is trimmed: a fixed number of turns, or whatever fits the model's input token limit.
+ */
+export type HistoryMode = 'turns' | 'tokens';
+
 export interface BridgeConfig {
   readonly enabled: boolean;
   readonly host: typeof LOOPBACK_HOST;
   readonly port: number;
   readonly token: string;
   readonly historyWindow: number;
+  readonly historyMode: HistoryMode;
   readonly verbose: boolean;
   readonly maxConcurrent: number;
+  readonly structuredOutputRetries: number;
+  readonly persistResponses: boolean;
+  readonly responseStoreMaxEntries: number;
+  readonly responseStoreMaxAgeMinutes: number;
 }
 
 export const getBridgeConfig = (): BridgeConfig => {
@@ -20,8 +30,13 @@ export const getBridgeConfig = (): BridgeConfig => {
     port: cfg.get('port', 0),
     token: cfg.get('token', '').trim(),
     historyWindow: cfg.get('historyWindow', 3),
+    historyMode: cfg.get<HistoryMode>('historyMode', 'turns') === 'tokens' ? 'tokens' : 'turns',
     verbose: cfg.get('verbose', false),
     maxConcurrent: cfg.get('maxConcurrent', 1),
+    structuredOutputRetries: Math.max(0, cfg.get('structuredOutputRetries', 2)),
+    persistResponses: cfg.get('persistResponses', false),
+    responseStoreMaxEntries: Math.max(1, cfg.get('responseStoreMaxEntries', 100)),
+    responseStoreMaxAgeMinutes: Math.max(1, cfg.get('responseStoreMaxAgeMinutes', 1440)),
   } satisfies BridgeConfig;
   return resolved;
 };
@@ -6,9 +6,12 @@ import { ensureOutput, verbose } from './log';
 import { ensureStatusBar, updateStatus } from './status';
 import { startServer, stopServer } from './http/server';
 import { getModel } from './models';
+import { initResponseStore } from './response-store';
 
 export async function activate(ctx: vscode.ExtensionContext): Promise<void> {
   ensureOutput();
+  const proposals: unknown = ctx.extension.packageJSON?.enabledApiProposals;
+  state.enabledApiProposals = Array.isArray(proposals) ? proposals.filter((p): p is string => typeof p === 'string') : [];
   ensureStatusBar();
   state.statusBarItem!.text = 'Copilot Bridge: Disabled';
   state.statusBarItem!.show();
@@ -52,6 +55,8 @@ export async function activate(ctx: vscode.ExtensionContext): Promise<void> {
     updateStatus(kind, { suppressLog: true });
   }));
 
+  await initResponseStore(ctx.globalStorageUri);
+
   const config = getBridgeConfig();
   if (config.enabled) {
     await startBridge();
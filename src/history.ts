@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import type { ChatMessage } from './messages';
+import { collectImageUrls, isInstructionMessage, messageText } from './messages';
+import { countTextTokens } from './usage';
+
+// Role markers and separators the tokenizer does not see when counting message text alone
+const PER_MESSAGE_OVERHEAD = 4;
+// The LM API cannot count image parts; this is what a 1024x1024 image costs on OpenAI vision models
+const IMAGE_TOKEN_ESTIMATE = 765;
+
+export interface HistoryTrimOptions<T> {
+  /** Items that are always kept, e.g. system prompts. */
+  readonly isPinned: (item: T) => boolean;
+  /** Items that open a new droppable unit; everything up to the next such item is dropped together. */
+  readonly startsTurn: (item: T) => boolean;
+  readonly countTokens: (item: T) => Promise<number>;
+  readonly budget: number;
+}
+
+export interface HistoryTrimResult<T> {
+  readonly items: T[];
+  readonly droppedMessages: number;
+  readonly droppedTokens: number;
+}
+
+/**
+ * Drops the oldest units until the history fits the token budget.
+ * Pinned items stay in place, and each unit (see {@link HistoryTrimOptions.startsTurn}) is removed
+ * whole. The newest unit is always kept.
+ */
+export const trimToTokenBudget = async <T>(
+  items: readonly T[],
+  options: HistoryTrimOptions<T>
+): Promise<HistoryTrimResult<T>> => {
+  const counts = await Promise.all(items.map(async (item) => (await options.countTokens(item)) + PER_MESSAGE_OVERHEAD));
+  let total = counts.reduce((sum, n) => sum + n, 0);
+
+  // Group the indices of unpinned items into turns, oldest first
+  const turns: number[][] = [];
+  items.forEach((item, index) => {
+    if (options.isPinned(item)) return;
+    if (turns.length === 0 || options.startsTurn(item)) {
+      turns.push([index]);
+    } else {
+      turns[turns.length - 1].push(index);
+    }
+  });
+
+  const dropped = new Set<number>();
+  let droppedTokens = 0;
+  for (const turn of turns.slice(0, -1)) {
+    if (total <= options.budget) break;
+    for (const index of turn) {
+      dropped.add(index);
+      droppedTokens += counts[index];
+      total -= counts[index];
+    }
+  }
+
+  return {
+    items: items.filter((_, index) => !dropped.has(index)),
+    droppedMessages: dropped.size,
+    droppedTokens,
+  };
+};
+
+/**
+ * Token budget for the prompt: the model's input limit minus what the tool definitions consume
+ * and the room reserved for the requested output.
+ * @param reservedOutputTokens - The request's `max_tokens`, when it set one
+ */
+export const historyBudget = async (
+  model: vscode.LanguageModelChat,
+  tools: readonly vscode.LanguageModelChatTool[] = [],
+  reservedOutputTokens = 0
+): Promise<number> => {
+  const toolTokens = tools.length > 0 ? await countTextTokens(model, JSON.stringify(tools)) : 0;
+  return model.maxInputTokens - toolTokens - reservedOutputTokens;
+};
+
+/**
+ * Text tokens plus a fixed estimate per image part.
+ */
+const countMessageTokens = async (model: vscode.LanguageModelChat, message: ChatMessage): Promise<number> =>
+  (await countTextTokens(model, messageText(message))) + collectImageUrls([message]).length * IMAGE_TOKEN_ESTIMATE;
+
+/**
+ * Trims OpenAI chat messages to the model's input budget. System/developer messages are pinned.
+ * Every user message and every assistant message starts its own unit, and tool messages stay with the
+ * assistant message that requested them, so an agent loop (assistant tool call → tool result → …)
+ * can shed its oldest steps instead of counting as one undroppable turn.
+ */
+export const trimChatHistory = async (
+  model: vscode.LanguageModelChat,
+  messages: readonly ChatMessage[],
+  tools: readonly vscode.LanguageModelChatTool[],
+  reservedOutputTokens?: number
+): Promise<HistoryTrimResult<ChatMessage>> =>
+  trimToTokenBudget(messages, {
+    isPinned: isInstructionMessage,
+    startsTurn: (m) => m.role === 'user' || m.role === 'assistant',
+    countTokens: (m) => countMessageTokens(model, m),
+    budget: await historyBudget(model, tools, reservedOutputTokens),
+  });
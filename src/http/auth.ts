@@ -39,6 +39,12 @@ export const isAuthorized = (req: IncomingMessage, token: string): boolean => {
   if (typeof xGoogApiKey === 'string' && xGoogApiKey.trim() === token) {
     return true;
   }
+
+  // 检查 ?key=<token> (Gemini REST convention)
+  const queryKey = new URL(req.url ?? '/', 'http://localhost').searchParams.get('key');
+  if (queryKey !== null && queryKey.trim() === token) {
+    return true;
+  }
   
   return false;
 };
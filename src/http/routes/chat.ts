@@ -1,23 +1,33 @@
 import * as vscode from 'vscode';
 import type { IncomingMessage, ServerResponse } from 'http';
 import { state } from '../../state';
+import { isChatCompletionRequest, type ChatCompletionRequest } from '../../messages';
 import {
-  isChatCompletionRequest,
-  type ChatCompletionRequest,
-  normalizeMessagesLM,
-  convertOpenAIToolsToLM,
-  convertFunctionsToTools,
-  type Tool,
-} from '../../messages';
-import { readJson, writeErrorResponse, writeJson } from '../utils';
+  acquireRequestSlot,
+  isClientGone,
+  onClientDisconnect,
+  readJson,
+  setBridgeHeaders,
+  writeErrorResponse,
+  writeJson,
+} from '../utils';
 import { verbose } from '../../log';
-import { getModel, hasLMApi } from '../../models';
-import { getBridgeConfig } from '../../config';
+import {
+  normalizeContent,
+  prepareCompletion,
+  resolveCompletionModel,
+  runCompletion,
+  type CompletionErrorWriter,
+  type CompletionResult,
+  type PreparedCompletion,
+} from '../../completion';
+import type { TokenUsage } from '../../usage';
 import type {
   ChatCompletionContext,
   ProcessedResponseData,
   OpenAIResponse,
   OpenAIMessage,
+  OpenAIDelta,
   OpenAIToolCall,
   OpenAIChoice,
 } from '../../types/openai-types';
@@ -27,62 +37,67 @@ import type {
  * @param req - HTTP request object
  * @param res - HTTP response object
  */
-export async function handleChatCompletion(req: IncomingMessage & { _geminiBody?: unknown }, res: ServerResponse): Promise<void> {
-  state.activeRequests++;
+export async function handleChatCompletion(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const releaseSlot = acquireRequestSlot();
   verbose(`Request started (active=${state.activeRequests})`);
 
+  const cancellationToken = new vscode.CancellationTokenSource();
+  const stopWatching = onClientDisconnect(req, res, () => {
+    verbose('Client disconnected; cancelling model request');
+    cancellationToken.cancel();
+    releaseSlot();
+  });
+  const writeError: CompletionErrorWriter = (status, message, type, code, reason) =>
+    reason
+      ? writeErrorResponse(res, status, message, type, code, reason)
+      : writeErrorResponse(res, status, message, type, code);
+
   try {
-    // Support pre-parsed body from Gemini API converter
-    const body = req._geminiBody || await readJson(req);
+    const body = await readJson(req);
     if (!isChatCompletionRequest(body)) {
       writeErrorResponse(res, 400, 'invalid request', 'invalid_request_error', 'invalid_payload');
       return;
     }
 
-    const model = await resolveModel(body.model, res);
-    if (!model) {
+    const model = await resolveCompletionModel(body.model, writeError);
+    if (!model || cancellationToken.token.isCancellationRequested) {
       return;
     }
 
-    const config = getBridgeConfig();
-    const mergedTools = mergeTools(body);
-    const lmMessages = normalizeMessagesLM(body.messages, config.historyWindow);
-    const lmTools = convertOpenAIToolsToLM(mergedTools);
-    const requestOptions: vscode.LanguageModelChatRequestOptions = lmTools.length > 0 
-      ? { tools: lmTools } 
-      : {};
+    const prepared = await prepareCompletion(body, model, writeError);
+    if (!prepared) {
+      return;
+    }
+    setBridgeHeaders(res, prepared.headers);
 
     const modelName = selectResponseModelName(model, body.model);
-    const chatContext = createChatCompletionContext(body, mergedTools.length > 0, modelName);
-    verbose(`LM request via API model=${model.family || model.id || model.name || 'unknown'} tools=${lmTools.length}`);
-
-    const cancellationToken = new vscode.CancellationTokenSource();
-
-    try {
-      const response = await model.sendRequest(
-        lmMessages as vscode.LanguageModelChatMessage[],
-        requestOptions,
-        cancellationToken.token
-      );
-
-      try {
-        if (chatContext.isStreaming) {
-          await streamResponse(res, response, chatContext);
-        } else {
-          const processed = await collectResponseData(response);
-          sendCompletionResponse(res, chatContext, processed, body);
-        }
-      } finally {
-        disposeResponse(response);
-      }
-    } finally {
-      cancellationToken.dispose();
+    const chatContext = createChatCompletionContext(body, prepared.toolCount > 0, modelName);
+
+    if (chatContext.isStreaming) {
+      await streamCompletion(res, prepared, chatContext, cancellationToken, writeError);
+      return;
     }
+
+    const result = await runCompletion(prepared, cancellationToken, writeError);
+    if (!result || isClientGone(res)) {
+      return;
+    }
+    sendCompletionResponse(res, chatContext, toProcessedResponse(chatContext, result), result.usage, body);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    writeErrorResponse(res, 500, errorMessage || 'internal_error', 'server_error', 'internal_error');
+    if (cancellationToken.token.isCancellationRequested || isClientGone(res)) {
+      verbose(`Request aborted: ${errorMessage}`);
+    } else if (res.headersSent) {
+      // Mid-stream failure: the status line is already out, so just close the stream
+      verbose(`Stream failed: ${errorMessage}`);
+      res.end();
+    } else {
+      writeErrorResponse(res, 500, errorMessage || 'internal_error', 'server_error', 'internal_error');
+    }
   } finally {
-    state.activeRequests--;
+    stopWatching();
+    cancellationToken.dispose();
+    releaseSlot();
     verbose(`Request complete (active=${state.activeRequests})`);
   }
 }
@@ -93,60 +108,6 @@ const SSE_HEADERS = {
   Connection: 'keep-alive',
 } as const;
 
-/**
- * Merges tools and deprecated functions, respecting tool_choice configuration.
- * @param body - Chat completion request
- * @returns Filtered array of tools to use
- */
-function mergeTools(body: ChatCompletionRequest): Tool[] {
-  // Early exit for disabled tools
-  if (body.tool_choice === 'none' || body.function_call === 'none') {
-    return [];
-  }
-
-  const baseTools = body.tools ?? [];
-  const functionTools = convertFunctionsToTools(body.functions);
-  const combined = functionTools.length > 0 ? [...baseTools, ...functionTools] : baseTools;
-
-  // Handle specific tool selection
-  if (
-    body.tool_choice &&
-    typeof body.tool_choice === 'object' &&
-    'type' in body.tool_choice &&
-    body.tool_choice.type === 'function' &&
-    'function' in body.tool_choice &&
-    body.tool_choice.function &&
-    typeof body.tool_choice.function === 'object' &&
-    'name' in body.tool_choice.function
-  ) {
-    const fnName = body.tool_choice.function.name;
-    if (typeof fnName === 'string') {
-      return combined.filter((tool) => tool.function.name === fnName);
-    }
-  }
-
-  return combined;
-}
-
-async function resolveModel(
-  requestedModel: string | undefined,
-  res: ServerResponse
-): Promise<vscode.LanguageModelChat | undefined> {
-  const model = await getModel(false, requestedModel);
-  if (model) {
-    return model;
-  }
-
-  const hasLanguageModels = hasLMApi();
-  if (requestedModel && hasLanguageModels) {
-    writeErrorResponse(res, 404, 'model not found', 'invalid_request_error', 'model_not_found', 'not_found');
-  } else {
-    const reason = hasLanguageModels ? 'copilot_model_unavailable' : 'missing_language_model_api';
-    writeErrorResponse(res, 503, 'Copilot unavailable', 'server_error', 'copilot_unavailable', reason);
-  }
-  return undefined;
-}
-
 function createChatCompletionContext(
   body: ChatCompletionRequest,
   hasTools: boolean,
@@ -158,20 +119,60 @@ function createChatCompletionContext(
     created: Math.floor(Date.now() / 1000),
     hasTools,
     isStreaming: body.stream === true,
+    legacyFunctions: usesLegacyFunctions(body),
+    includeUsage: body.stream_options?.include_usage === true,
   };
 }
 
 /**
  * Streams chat completion response using Server-Sent Events.
+ * The stream opens on the first model output, so errors raised before that still get a JSON error body.
  * @param res - HTTP response object
- * @param response - VS Code Language Model response
+ * @param prepared - Prepared model request
  * @param context - Chat completion context
+ * @param source - Cancelled when the client disconnects; stops reading from the model
  */
-async function streamResponse(
+async function streamCompletion(
   res: ServerResponse,
-  response: vscode.LanguageModelChatResponse,
-  context: ChatCompletionContext
+  prepared: PreparedCompletion,
+  context: ChatCompletionContext,
+  source: vscode.CancellationTokenSource,
+  writeError: CompletionErrorWriter
 ): Promise<void> {
+  let started = false;
+  const ensureStarted = (): void => {
+    if (started) {
+      return;
+    }
+    started = true;
+    startSse(res, context);
+    writeSseData(res, createChunkResponse(context, { role: 'assistant' }, null));
+  };
+
+  const result = await runCompletion(prepared, source, writeError, {
+    onText: (content) => {
+      ensureStarted();
+      writeSseData(res, createChunkResponse(context, { content }, null));
+    },
+    onToolCall: (toolCall, index) => {
+      ensureStarted();
+      writeToolCallDeltas(res, context, toolCall, index);
+    },
+  });
+  if (!result) {
+    return;
+  }
+  if (isClientGone(res)) {
+    verbose(`SSE aborted id=${context.requestId}`);
+    return;
+  }
+
+  // Ensure role chunk is sent even for empty responses
+  ensureStarted();
+  finishSse(res, context, selectFinishReason(context, result), context.includeUsage ? result.usage : undefined);
+}
+
+function startSse(res: ServerResponse, context: ChatCompletionContext): void {
   // Disable Nagle's algorithm for lower latency streaming
   if (res.socket) {
     res.socket.setNoDelay(true);
@@ -182,76 +183,42 @@ async function streamResponse(
     res.flushHeaders();
   }
   verbose(`SSE start id=${context.requestId}`);
+}
 
-  let sawToolCall = false;
-  let sentRoleChunk = false;
-
-  for await (const part of response.stream) {
-    // Send initial role chunk once
-    if (!sentRoleChunk) {
-      writeSseData(res, createChunkResponse(context, { role: 'assistant' }, null));
-      sentRoleChunk = true;
-    }
+function finishSse(
+  res: ServerResponse,
+  context: ChatCompletionContext,
+  finishReason: OpenAIChoice['finish_reason'],
+  usage: TokenUsage | undefined
+): void {
+  writeSseData(res, createChunkResponse(context, {}, finishReason));
 
-    if (isToolCallPart(part)) {
-      sawToolCall = true;
-      writeSseData(res, createChunkResponse(context, {
-        tool_calls: [createToolCall(part)],
-      }, null));
-    } else {
-      const content = extractTextContent(part);
-      if (content) {
-        // Normalize content to remove markdown code block wrappers
-        const normalizedContent = normalizeContent(content);
-        if (normalizedContent) {
-          writeSseData(res, createChunkResponse(context, { content: normalizedContent }, null));
-        }
-      }
-    }
+  // Per the OpenAI spec, usage arrives in one extra chunk with empty choices
+  if (usage) {
+    writeSseData(res, createUsageChunk(context, usage));
   }
-
-  // Ensure role chunk is sent even for empty responses
-  if (!sentRoleChunk) {
-    writeSseData(res, createChunkResponse(context, { role: 'assistant' }, null));
+  if (isClientGone(res)) {
+    return;
   }
-
-  const finalChunk = createChunkResponse(context, {}, sawToolCall ? 'tool_calls' : 'stop');
-  writeSseData(res, finalChunk);
   res.write('data: [DONE]\n\n');
   res.end();
   verbose(`SSE end id=${context.requestId}`);
 }
 
-/**
- * Collects complete response data from VS Code Language Model stream.
- * @param response - VS Code Language Model response
- * @returns Processed response data with content and tool calls
- */
-async function collectResponseData(
-  response: vscode.LanguageModelChatResponse
-): Promise<ProcessedResponseData> {
-  let content = '';
-  const toolCalls: OpenAIToolCall[] = [];
-
-  for await (const part of response.stream) {
-    if (isToolCallPart(part)) {
-      toolCalls.push(createToolCall(part));
-    } else {
-      content += extractTextContent(part);
-    }
-  }
-
-  // Normalize content to remove markdown code block wrappers
-  content = normalizeContent(content);
-
-  const finishReason: OpenAIChoice['finish_reason'] = toolCalls.length > 0 ? 'tool_calls' : 'stop';
-  return { content, toolCalls, finishReason };
+function toProcessedResponse(context: ChatCompletionContext, result: CompletionResult): ProcessedResponseData {
+  return {
+    // Normalize content to remove markdown code block wrappers
+    content: normalizeContent(result.content),
+    toolCalls: result.toolCalls,
+    finishReason: selectFinishReason(context, result),
+  };
 }
 
 function sendCompletionResponse(
   res: ServerResponse,
   context: ChatCompletionContext,
   data: ProcessedResponseData,
+  usage: TokenUsage,
   requestBody?: ChatCompletionRequest
 ): void {
   const message = createOpenAIMessage(data, requestBody);
@@ -267,14 +234,10 @@ function sendCompletionResponse(
         finish_reason: data.finishReason,
       },
     ],
-    usage: {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      total_tokens: 0,
-    },
+    usage,
   };
 
-  verbose(`Non-stream complete len=${data.content.length} tool_calls=${data.toolCalls.length}`);
+  verbose(`Non-stream complete len=${data.content.length} tool_calls=${data.toolCalls.length} tokens=${usage.total_tokens}`);
   writeJson(res, 200, response);
 }
 
@@ -296,7 +259,8 @@ function createOpenAIMessage(
     tool_calls: data.toolCalls,
   };
 
-  if (data.toolCalls.length === 1 && requestBody?.function_call !== undefined) {
+  const legacyCaller = requestBody !== undefined && usesLegacyFunctions(requestBody);
+  if (data.toolCalls.length === 1 && (requestBody?.function_call !== undefined || legacyCaller)) {
     return {
       ...withTools,
       function_call: {
@@ -311,7 +275,7 @@ function createOpenAIMessage(
 
 function createChunkResponse(
   context: ChatCompletionContext,
-  delta: Partial<OpenAIMessage>,
+  delta: OpenAIDelta,
   finishReason: OpenAIChoice['finish_reason'] | null
 ): OpenAIResponse {
   return {
@@ -329,59 +293,74 @@ function createChunkResponse(
   };
 }
 
-function writeSseData(res: ServerResponse, data: OpenAIResponse): void {
-  res.write(`data: ${JSON.stringify(data)}\n\n`);
-}
-
-function createToolCall(part: vscode.LanguageModelToolCallPart): OpenAIToolCall {
-  return {
-    id: part.callId,
-    type: 'function',
-    function: {
-      name: part.name,
-      arguments: JSON.stringify(part.input),
-    },
-  };
-}
+/**
+ * Streams one tool call the way the OpenAI SDKs accumulate it: an opening delta with
+ * `id`, `type` and `function.name` under a stable `index`, followed by the argument fragment.
+ * Legacy `functions` callers receive the equivalent `function_call` deltas instead.
+ */
+function writeToolCallDeltas(
+  res: ServerResponse,
+  context: ChatCompletionContext,
+  toolCall: OpenAIToolCall,
+  index: number
+): void {
+  if (context.legacyFunctions) {
+    // The legacy API has no parallel calls; only the first function call is representable
+    if (index > 0) {
+      return;
+    }
+    writeSseData(res, createChunkResponse(context, {
+      function_call: { name: toolCall.function.name, arguments: '' },
+    }, null));
+    writeSseData(res, createChunkResponse(context, {
+      function_call: { arguments: toolCall.function.arguments },
+    }, null));
+    return;
+  }
 
-function isToolCallPart(part: unknown): part is vscode.LanguageModelToolCallPart {
-  return (
-    part !== null &&
-    typeof part === 'object' &&
-    'callId' in part &&
-    'name' in part &&
-    'input' in part
-  );
+  writeSseData(res, createChunkResponse(context, {
+    tool_calls: [{
+      index,
+      id: toolCall.id,
+      type: 'function',
+      function: { name: toolCall.function.name, arguments: '' },
+    }],
+  }, null));
+  writeSseData(res, createChunkResponse(context, {
+    tool_calls: [{ index, function: { arguments: toolCall.function.arguments } }],
+  }, null));
 }
 
-function extractTextContent(part: unknown): string {
-  if (typeof part === 'string') {
-    return part;
-  }
-
-  if (part !== null && typeof part === 'object' && 'value' in part) {
-    return String((part as { value: unknown }).value) || '';
+function selectFinishReason(context: ChatCompletionContext, result: CompletionResult): OpenAIChoice['finish_reason'] {
+  if (result.finishReason === 'tool_calls' && context.legacyFunctions) {
+    return 'function_call';
   }
-
-  return '';
+  return result.finishReason;
 }
 
 /**
- * Normalizes response content by removing markdown code block wrappers.
- * Copilot may wrap JSON responses in ```json...``` blocks, which should be unwrapped
- * to match standard OpenAI API behavior.
+ * Callers that send only the deprecated `functions` field expect `function_call` responses.
  */
-function normalizeContent(content: string): string {
-  // Remove markdown code block wrappers (```json ... ``` or ```...```)
-  const cleanedContent = content.replace(/^```(?:json|javascript|js)?\n?([\s\S]*?)\n?```$/gm, '$1');
-  return cleanedContent.trim();
+function usesLegacyFunctions(body: ChatCompletionRequest): boolean {
+  return (body.functions?.length ?? 0) > 0 && (body.tools?.length ?? 0) === 0 && body.function_call !== 'none';
 }
 
-function disposeResponse(response: vscode.LanguageModelChatResponse): void {
-  const disposable = response as { dispose?: () => void };
-  if (typeof disposable.dispose === 'function') {
-    disposable.dispose();
+function createUsageChunk(context: ChatCompletionContext, usage: TokenUsage): OpenAIResponse {
+  return {
+    id: context.requestId,
+    object: 'chat.completion.chunk',
+    created: context.created,
+    model: context.modelName,
+    choices: [],
+    usage,
+  };
+}
+
+function writeSseData(res: ServerResponse, data: OpenAIResponse): void {
+  if (isClientGone(res)) {
+    return;
   }
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
 }
 
 /**
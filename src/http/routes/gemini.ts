@@ -1,166 +1,487 @@
+import * as vscode from 'vscode';
 import type { IncomingMessage, ServerResponse } from 'http';
 import { verbose } from '../../log';
 import { getBridgeConfig } from '../../config';
-import { writeErrorResponse } from '../utils';
+import { getMaxOutputTokens, listChatModels, selectChatModels } from '../../models';
+import type { ChatCompletionRequest, ChatMessage, MessageContent, Tool } from '../../messages';
+import {
+  prepareCompletion,
+  resolveCompletionModel,
+  runCompletion,
+  type CompletionErrorWriter,
+  type CompletionResult,
+} from '../../completion';
+import type { TokenUsage } from '../../usage';
+import type { OpenAIToolCall } from '../../types/openai-types';
+import {
+  acquireRequestSlot,
+  isClientGone,
+  onClientDisconnect,
+  readJson,
+  setBridgeHeaders,
+  writeGoogleError,
+  writeJson,
+} from '../utils';
 
 /**
  * Gemini API request format
  */
+interface GeminiFunctionCall {
+  id?: string;
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+interface GeminiFunctionResponse {
+  id?: string;
+  name: string;
+  response?: unknown;
+}
+
+interface GeminiRequestPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  fileData?: { mimeType?: string; fileUri: string };
+  functionCall?: GeminiFunctionCall;
+  functionResponse?: GeminiFunctionResponse;
+  /** Thought summaries echoed back by SDKs; they carry text but are not part of the prompt. */
+  thought?: boolean;
+}
+
 interface GeminiContent {
   role?: string;
-  parts: Array<{ text?: string }>;
+  parts: GeminiRequestPart[];
+}
+
+interface GeminiFunctionDeclaration {
+  name: string;
+  description?: string;
+  /** OpenAPI-style schema with upper-case type names (`OBJECT`, `STRING`, ...). */
+  parameters?: object;
+  /** Plain JSON Schema, sent by newer SDKs instead of `parameters`. */
+  parametersJsonSchema?: object;
+}
+
+interface GeminiTool {
+  functionDeclarations?: GeminiFunctionDeclaration[];
+}
+
+interface GeminiToolConfig {
+  functionCallingConfig?: {
+    mode?: 'AUTO' | 'ANY' | 'NONE' | 'VALIDATED' | 'MODE_UNSPECIFIED';
+    allowedFunctionNames?: string[];
+  };
 }
 
 interface GeminiRequest {
   contents: GeminiContent[];
+  systemInstruction?: GeminiContent | string;
   generationConfig?: {
     temperature?: number;
     maxOutputTokens?: number;
     topP?: number;
     topK?: number;
+    stopSequences?: string[];
+    candidateCount?: number;
+    responseMimeType?: string;
+    /** OpenAPI-style schema, like function `parameters`. */
+    responseSchema?: object;
+    responseJsonSchema?: object;
   };
-  tools?: unknown[];
+  tools?: GeminiTool[];
+  toolConfig?: GeminiToolConfig;
+}
+
+type GeminiPart = { text: string } | { functionCall: { id: string; name: string; args: unknown } };
+
+interface GeminiUsageMetadata {
+  promptTokenCount: number;
+  candidatesTokenCount: number;
+  totalTokenCount: number;
 }
 
-type OpenAIChatCompletion = {
-  choices?: Array<{
-    message?: { content?: string };
-    finish_reason?: string;
+interface GeminiResponseChunk {
+  candidates: Array<{
+    content: { parts: GeminiPart[]; role: 'model' };
+    finishReason?: 'STOP' | 'MAX_TOKENS';
+    index: number;
   }>;
-  usage?: {
-    prompt_tokens?: number;
-    completion_tokens?: number;
-    total_tokens?: number;
+  usageMetadata?: GeminiUsageMetadata;
+  modelVersion: string;
+}
+
+/**
+ * Writes streamed chunks either as server-sent events (`alt=sse`) or as the elements of one JSON array,
+ * which is what the REST API returns for `:streamGenerateContent` without `alt`.
+ * The response head is written with the first chunk, so errors raised before that still get a JSON body.
+ */
+interface GeminiStreamWriter {
+  write(chunk: GeminiResponseChunk): void;
+  end(): void;
+}
+
+function createGeminiStreamWriter(res: ServerResponse, sse: boolean): GeminiStreamWriter {
+  let chunks = 0;
+
+  const start = () => {
+    // Disable Nagle's algorithm for lower latency streaming
+    res.socket?.setNoDelay(true);
+    res.statusCode = 200;
+    if (sse) {
+      res.setHeader('content-type', 'text/event-stream');
+      res.setHeader('cache-control', 'no-cache');
+      res.setHeader('connection', 'keep-alive');
+    } else {
+      res.setHeader('content-type', 'application/json');
+      res.write('[');
+    }
+  };
+
+  return {
+    write(chunk) {
+      if (isClientGone(res)) return;
+      if (chunks === 0) start();
+      const json = JSON.stringify(chunk);
+      if (sse) {
+        res.write(`data: ${json}\r\n\r\n`);
+      } else {
+        res.write(chunks === 0 ? json : `,\r\n${json}`);
+      }
+      chunks++;
+    },
+    end() {
+      if (isClientGone(res)) return;
+      if (!sse) res.write(']');
+      res.end();
+    },
   };
+}
+
+const GOOGLE_STATUS: Readonly<Record<number, string>> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
 };
 
-function getBearerToken(req: IncomingMessage): string | null {
-  // Check Authorization header first
-  const auth = req.headers['authorization'];
-  if (auth?.startsWith('Bearer ')) {
-    const v = auth.slice(7).trim();
-    if (v) return v;
+/**
+ * Writes a Google-style error for a bridge status code; used for pre-route rejections (rate limit) too.
+ */
+export function writeGeminiStatusError(res: ServerResponse, code: number, message: string): void {
+  writeGoogleError(res, code, GOOGLE_STATUS[code] ?? (code < 500 ? 'INVALID_ARGUMENT' : 'INTERNAL'), message);
+}
+
+const VALID_ROLES = new Set(['user', 'model', 'function']);
+
+/**
+ * Rejects requests the translation cannot represent faithfully.
+ * @returns A client-facing message, or undefined when the request is valid
+ */
+function validateGeminiRequest(geminiReq: GeminiRequest): string | undefined {
+  if (!Array.isArray(geminiReq.contents) || geminiReq.contents.length === 0) {
+    return '* GenerateContentRequest.contents: contents is not specified';
   }
-  
-  // Check query parameter 'key' (Google Gemini API standard)
-  const url = req.url || '';
-  const queryStart = url.indexOf('?');
-  if (queryStart >= 0) {
-    const queryString = url.substring(queryStart + 1);
-    const params = new URLSearchParams(queryString);
-    const key = params.get('key');
-    if (key) return key;
+  const candidateCount = geminiReq.generationConfig?.candidateCount;
+  if (candidateCount !== undefined && candidateCount !== 1) {
+    return `* GenerateContentRequest.generation_config.candidate_count: only 1 candidate is supported, got ${candidateCount}`;
   }
-  
-  return null;
+  for (const [index, content] of geminiReq.contents.entries()) {
+    if (content.role !== undefined && !VALID_ROLES.has(content.role)) {
+      return `* GenerateContentRequest.contents[${index}].role: Please use a valid role: user, model.`;
+    }
+    if (!Array.isArray(content.parts) || content.parts.length === 0) {
+      return `* GenerateContentRequest.contents[${index}].parts: contents.parts must not be empty.`;
+    }
+    for (const [partIndex, part] of content.parts.entries()) {
+      const problem = validatePart(part);
+      if (problem) {
+        return `* GenerateContentRequest.contents[${index}].parts[${partIndex}]: ${problem}`;
+      }
+    }
+  }
+  return undefined;
 }
 
-function getOrigin(req: IncomingMessage): string {
-  const host = (req.headers['host'] as string) || '127.0.0.1:9527';
-  return `http://${host}`;
+function validatePart(part: GeminiRequestPart): string | undefined {
+  if (part.inlineData) {
+    return part.inlineData.mimeType?.startsWith('image/') ? undefined : `unsupported inlineData mimeType "${part.inlineData.mimeType}"`;
+  }
+  if (part.fileData) {
+    return !part.fileData.mimeType || part.fileData.mimeType.startsWith('image/')
+      ? undefined
+      : `unsupported fileData mimeType "${part.fileData.mimeType}"`;
+  }
+  if (typeof part.text === 'string' || part.functionCall || part.functionResponse) {
+    return undefined;
+  }
+  return 'part must contain text, inlineData, fileData, functionCall or functionResponse';
 }
 
 /**
- * Handle Gemini API format: POST /v1/models/{model}:generateContent
- * Converts to OpenAI format, calls internal endpoint, and converts back to Gemini format
+ * Converts a Gemini request into the chat completion shape the shared pipeline consumes.
  */
-export async function handleGeminiGenerateContent(
-  req: IncomingMessage,
-  res: ServerResponse,
-  modelName: string
-): Promise<void> {
-  const config = getBridgeConfig();
-  
-  if (config.verbose) {
-    verbose(`Gemini API request for model: ${modelName}`);
+function toChatCompletionRequest(geminiReq: GeminiRequest, modelName: string): ChatCompletionRequest {
+  const generationConfig = geminiReq.generationConfig;
+  const system = typeof geminiReq.systemInstruction === 'string'
+    ? geminiReq.systemInstruction
+    : (geminiReq.systemInstruction?.parts ?? []).filter(p => p.text).map(p => p.text).join('\n');
+
+  return {
+    model: modelName,
+    messages: [
+      ...(system ? [{ role: 'system' as const, content: system }] : []),
+      ...toChatMessages(geminiReq.contents ?? []),
+    ],
+    temperature: generationConfig?.temperature ?? 0.7,
+    max_tokens: generationConfig?.maxOutputTokens,
+    top_p: generationConfig?.topP,
+    top_k: generationConfig?.topK,
+    stop: generationConfig?.stopSequences,
+    response_format: toResponseFormat(generationConfig),
+    ...toTools(geminiReq.tools, geminiReq.toolConfig),
+  };
+}
+
+/**
+ * `application/json` output becomes structured output, validated against the schema when one is given.
+ */
+function toResponseFormat(generationConfig: GeminiRequest['generationConfig']): ChatCompletionRequest['response_format'] {
+  if (generationConfig?.responseMimeType !== 'application/json') return undefined;
+  const schema = generationConfig.responseJsonSchema
+    ?? (generationConfig.responseSchema ? toJsonSchema(generationConfig.responseSchema) as object : undefined);
+  return schema
+    ? { type: 'json_schema', json_schema: { name: 'response', schema, strict: true } }
+    : { type: 'json_object' };
+}
+
+/**
+ * User content as OpenAI parts when it carries images, otherwise as plain text.
+ */
+function toUserContent(parts: readonly GeminiRequestPart[], text: string): string | MessageContent[] {
+  const hasImages = parts.some((p) => p.inlineData || p.fileData);
+  if (!hasImages) return text;
+  return parts.flatMap((p): MessageContent[] => {
+    if (p.inlineData) return [{ type: 'image_url', image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } }];
+    if (p.fileData) return [{ type: 'image_url', image_url: { url: p.fileData.fileUri } }];
+    if (typeof p.text === 'string' && p.text && !p.thought) return [{ type: 'text', text: p.text }];
+    return [];
+  });
+}
+
+/**
+ * Maps contents onto chat messages. `functionCall` parts become assistant tool calls and
+ * `functionResponse` parts become tool messages. Gemini ids are optional, so calls without one get
+ * a generated id and responses are paired with the oldest unanswered call of the same name.
+ */
+function toChatMessages(contents: readonly GeminiContent[]): ChatMessage[] {
+  const pendingCalls = new Map<string, string[]>();
+  let generatedIds = 0;
+  const messages: ChatMessage[] = [];
+
+  for (const content of contents) {
+    const parts = content.parts ?? [];
+    const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('\n');
+
+    if (content.role === 'model') {
+      const toolCalls = parts.flatMap((p) => {
+        if (!p.functionCall) return [];
+        const id = p.functionCall.id || `call_${generatedIds++}`;
+        pendingCalls.set(p.functionCall.name, [...(pendingCalls.get(p.functionCall.name) ?? []), id]);
+        return [{ id, type: 'function' as const, function: { name: p.functionCall.name, arguments: JSON.stringify(p.functionCall.args ?? {}) } }];
+      });
+      messages.push({ role: 'assistant', content: text, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+      continue;
+    }
+
+    for (const p of parts) {
+      if (!p.functionResponse) continue;
+      const queue = pendingCalls.get(p.functionResponse.name) ?? [];
+      const id = p.functionResponse.id && queue.includes(p.functionResponse.id) ? p.functionResponse.id : queue[0];
+      pendingCalls.set(p.functionResponse.name, queue.filter((pending) => pending !== id));
+      messages.push({
+        role: 'tool',
+        tool_call_id: id ?? p.functionResponse.id ?? p.functionResponse.name,
+        content: JSON.stringify(p.functionResponse.response ?? {}),
+      });
+    }
+    if (text || parts.some((p) => p.inlineData || p.fileData) || parts.every((p) => !p.functionResponse)) {
+      messages.push({ role: 'user', content: toUserContent(parts, text) });
+    }
   }
+  return messages;
+}
 
-  const token = getBearerToken(req);
-  if (!token) {
-    res.statusCode = 401;
-    res.setHeader('content-type', 'application/json');
-    res.end(JSON.stringify({ 
-      error: { message: 'unauthorized', type: 'invalid_request_error', code: 'unauthorized' } 
+/**
+ * Translates functionDeclarations and functionCallingConfig into OpenAI tools and tool_choice.
+ * `allowedFunctionNames` narrows the declared tools; ANY with a single allowed function forces that function.
+ */
+function toTools(
+  tools: readonly GeminiTool[] | undefined,
+  toolConfig: GeminiToolConfig | undefined
+): Pick<ChatCompletionRequest, 'tools' | 'tool_choice'> {
+  const declarations = (tools ?? []).flatMap((tool) => tool.functionDeclarations ?? []);
+  if (declarations.length === 0) return {};
+
+  const config = toolConfig?.functionCallingConfig;
+  const allowed = config?.allowedFunctionNames;
+  const openAITools = declarations
+    .filter((d) => !allowed || allowed.length === 0 || allowed.includes(d.name))
+    .map((d): Tool => ({
+      type: 'function',
+      function: {
+        name: d.name,
+        description: d.description,
+        parameters: d.parametersJsonSchema ?? (d.parameters ? toJsonSchema(d.parameters) as object : undefined),
+      },
     }));
-    return;
+
+  switch (config?.mode) {
+    case 'NONE':
+      return { tools: openAITools, tool_choice: 'none' };
+    case 'ANY':
+      return {
+        tools: openAITools,
+        tool_choice: openAITools.length === 1
+          ? { type: 'function', function: { name: openAITools[0].function.name } }
+          : 'required',
+      };
+    default:
+      return { tools: openAITools };
   }
+}
 
-  // Read request body
-  let geminiReq: GeminiRequest;
+/**
+ * Gemini schemas use OpenAPI upper-case type names; JSON Schema expects them lower-case.
+ */
+function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (typeof schema !== 'object' || schema === null) return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === 'type' && typeof value === 'string' ? value.toLowerCase() : key === 'enum' ? value : toJsonSchema(value),
+  ]));
+}
+
+function toFunctionCallPart(toolCall: OpenAIToolCall): GeminiPart {
+  let args: unknown = {};
   try {
-    const { readJson } = await import('../utils');
-    geminiReq = await readJson(req) as GeminiRequest;
-  } catch (e) {
-    writeErrorResponse(res, 400, 'Invalid JSON', 'invalid_request_error', 'parse_error');
-    return;
+    args = JSON.parse(toolCall.function.arguments);
+  } catch {
+    // Arguments the model produced are not JSON; report them as empty rather than failing the response
   }
+  return { functionCall: { id: toolCall.id, name: toolCall.function.name, args } };
+}
 
-  if (config.verbose) {
-    verbose(`Gemini request: ${JSON.stringify(geminiReq).substring(0, 200)}...`);
-  }
+function toFinishReason(result: CompletionResult): 'STOP' | 'MAX_TOKENS' {
+  return result.finishReason === 'length' ? 'MAX_TOKENS' : 'STOP';
+}
 
-  // Convert Gemini format to OpenAI format
-  const messages = geminiReq.contents?.map((content) => {
-    const role = content.role === 'model' ? 'assistant' : (content.role || 'user');
-    const textParts = content.parts?.filter(p => p.text).map(p => p.text).join('\n') || '';
-    return {
-      role,
-      content: textParts
-    };
-  }) || [];
+function toUsageMetadata(usage: TokenUsage): GeminiUsageMetadata {
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount: usage.completion_tokens,
+    totalTokenCount: usage.total_tokens,
+  };
+}
 
-  // Build OpenAI-compatible request
-  const openaiRequest = {
-    model: modelName,
-    messages,
-    temperature: geminiReq.generationConfig?.temperature ?? 0.7,
-    max_tokens: geminiReq.generationConfig?.maxOutputTokens,
-    top_p: geminiReq.generationConfig?.topP,
-    stream: false  // Currently only support non-streaming
+function createChunk(modelName: string, parts: GeminiPart[], result?: CompletionResult): GeminiResponseChunk {
+  return {
+    candidates: [{
+      content: { parts, role: 'model' },
+      ...(result ? { finishReason: toFinishReason(result) } : {}),
+      index: 0,
+    }],
+    ...(result ? { usageMetadata: toUsageMetadata(result.usage) } : {}),
+    modelVersion: modelName,
   };
+}
+
+/**
+ * Handle Gemini API format: POST /v1/models/{model}:generateContent and :streamGenerateContent
+ * Converts to the shared chat completion pipeline in-process and renders the result in Gemini format.
+ * @param stream - True for `:streamGenerateContent`; `alt=sse` selects SSE framing over a JSON array
+ */
+export async function handleGeminiGenerateContent(
+  req: IncomingMessage,
+  res: ServerResponse,
+  modelName: string,
+  stream: boolean
+): Promise<void> {
+  const config = getBridgeConfig();
 
   if (config.verbose) {
-    verbose(`Converted to OpenAI format: ${JSON.stringify(openaiRequest).substring(0, 200)}...`);
+    verbose(`Gemini API request for model: ${modelName} stream=${stream}`);
   }
 
+  const releaseSlot = acquireRequestSlot();
+  const cancellationToken = new vscode.CancellationTokenSource();
+  const stopWatching = onClientDisconnect(req, res, () => {
+    verbose('Gemini client disconnected; cancelling model request');
+    cancellationToken.cancel();
+    releaseSlot();
+  });
+  const writeError: CompletionErrorWriter = (status, message) => writeGeminiStatusError(res, status, message);
+
   try {
-    // Call internal /v1/chat/completions endpoint
-    const origin = getOrigin(req);
-    const resp = await fetch(`${origin}/v1/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'content-type': 'application/json',
-        'authorization': `Bearer ${token}`,
-      },
-      body: JSON.stringify(openaiRequest),
-    });
+    // Read request body
+    let geminiReq: GeminiRequest;
+    try {
+      geminiReq = await readJson(req) as GeminiRequest;
+    } catch (e) {
+      writeGeminiStatusError(res, 400, 'Invalid JSON payload received.');
+      return;
+    }
 
-    if (!resp.ok) {
-      const txt = await resp.text().catch(() => '');
-      if (resp.status === 401) {
-        throw new Error(`Upstream /v1/chat/completions unauthorized: ${txt}`);
-      }
-      throw new Error(`Upstream /v1/chat/completions failed: ${resp.status} ${txt}`);
-    }
-
-    const openaiResponse = (await resp.json()) as OpenAIChatCompletion;
-    
-    // Convert OpenAI response to Gemini format
-    const geminiResponse = {
-      candidates: [{
-        content: {
-          parts: [{ text: openaiResponse.choices?.[0]?.message?.content || '' }],
-          role: 'model'
-        },
-        finishReason: openaiResponse.choices?.[0]?.finish_reason?.toUpperCase() || 'STOP',
-        index: 0
-      }],
-      usageMetadata: {
-        promptTokenCount: openaiResponse.usage?.prompt_tokens || 0,
-        candidatesTokenCount: openaiResponse.usage?.completion_tokens || 0,
-        totalTokenCount: openaiResponse.usage?.total_tokens || 0
+    if (config.verbose) {
+      verbose(`Gemini request: ${JSON.stringify(geminiReq).substring(0, 200)}...`);
+    }
+
+    const invalid = validateGeminiRequest(geminiReq);
+    if (invalid) {
+      writeGeminiStatusError(res, 400, invalid);
+      return;
+    }
+
+    const request = toChatCompletionRequest(geminiReq, modelName);
+    const model = await resolveCompletionModel(modelName, writeError);
+    if (!model || cancellationToken.token.isCancellationRequested) {
+      return;
+    }
+
+    const prepared = await prepareCompletion(request, model, writeError);
+    if (!prepared) {
+      return;
+    }
+    setBridgeHeaders(res, prepared.headers);
+
+    if (stream) {
+      const sse = new URL(req.url ?? '/', 'http://localhost').searchParams.get('alt') === 'sse';
+      const writer = createGeminiStreamWriter(res, sse);
+      const result = await runCompletion(prepared, cancellationToken, writeError, {
+        onText: (text) => writer.write(createChunk(modelName, [{ text }])),
+        onToolCall: (toolCall) => writer.write(createChunk(modelName, [toFunctionCallPart(toolCall)])),
+      });
+      if (!result || isClientGone(res)) {
+        return;
       }
-    };
+      // The final chunk carries finishReason and usageMetadata
+      writer.write(createChunk(modelName, [{ text: '' }], result));
+      writer.end();
+      return;
+    }
+
+    const result = await runCompletion(prepared, cancellationToken, writeError);
+    if (!result || isClientGone(res)) {
+      return;
+    }
+    const parts: GeminiPart[] = [
+      ...(result.content || result.toolCalls.length === 0 ? [{ text: result.content }] : []),
+      ...result.toolCalls.map(toFunctionCallPart),
+    ];
+    const geminiResponse = createChunk(modelName, parts, result);
 
     if (config.verbose) {
       verbose(`Gemini response: ${JSON.stringify(geminiResponse).substring(0, 200)}...`);
@@ -170,18 +491,125 @@ export async function handleGeminiGenerateContent(
     res.statusCode = 200;
     res.setHeader('content-type', 'application/json');
     res.end(JSON.stringify(geminiResponse));
-  } catch (err: any) {
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (cancellationToken.token.isCancellationRequested || isClientGone(res)) {
+      verbose('Gemini request aborted by client');
+      return;
+    }
     if (config.verbose) {
-      verbose(`Gemini API error: ${err?.message}`);
+      verbose(`Gemini API error: ${message}`);
     }
-    res.statusCode = 500;
-    res.setHeader('content-type', 'application/json');
-    res.end(JSON.stringify({
-      error: {
-        message: err?.message ?? 'Internal Server Error',
-        type: 'server_error',
-        code: 'gemini_conversion_error'
-      }
-    }));
+    if (res.headersSent) {
+      // Mid-stream failure: the status line is already out, so just close the stream
+      res.end();
+      return;
+    }
+    writeGeminiStatusError(res, 500, message || 'Internal error encountered.');
+  } finally {
+    stopWatching();
+    cancellationToken.dispose();
+    releaseSlot();
+  }
+}
+
+interface GeminiModel {
+  name: string;
+  baseModelId: string;
+  version: string;
+  displayName: string;
+  description: string;
+  inputTokenLimit: number;
+  outputTokenLimit?: number;
+  supportedGenerationMethods: string[];
+}
+
+const SUPPORTED_METHODS = ['generateContent', 'streamGenerateContent', 'countTokens'];
+
+/**
+ * Google clients identify themselves with their API key header or query parameter, or the SDK client header.
+ * Used to serve the Gemini shape on `/v1/models`, which OpenAI clients share.
+ */
+export function isGoogleClient(req: IncomingMessage): boolean {
+  if (req.headers['x-goog-api-key'] !== undefined || req.headers['x-goog-api-client'] !== undefined) {
+    return true;
+  }
+  return new URL(req.url ?? '/', 'http://localhost').searchParams.has('key');
+}
+
+/**
+ * Gemini model names address models by family, matching how `getModel` resolves them.
+ */
+function toGeminiModel(model: vscode.LanguageModelChat): GeminiModel {
+  const id = model.family || model.id;
+  const outputTokenLimit = getMaxOutputTokens(model);
+  return {
+    name: `models/${id}`,
+    baseModelId: id,
+    version: model.version,
+    displayName: model.name,
+    description: `${model.name} via ${model.vendor}`,
+    inputTokenLimit: model.maxInputTokens,
+    ...(outputTokenLimit !== undefined ? { outputTokenLimit } : {}),
+    supportedGenerationMethods: SUPPORTED_METHODS,
+  };
+}
+
+/**
+ * GET /{v1,v1beta}/models
+ */
+export async function handleGeminiModelsList(res: ServerResponse): Promise<void> {
+  const seen = new Set<string>();
+  const models = (await listChatModels())
+    .map(toGeminiModel)
+    .filter((model) => !seen.has(model.name) && seen.add(model.name));
+  verbose(`Gemini models listed: ${models.length} available`);
+  writeJson(res, 200, { models });
+}
+
+/**
+ * GET /{v1,v1beta}/models/{model}
+ */
+export async function handleGeminiModelGet(res: ServerResponse, modelName: string): Promise<void> {
+  const name = modelName.replace(/^models\//, '');
+  const [model] = await selectChatModels(name).catch(() => []);
+  if (!model) {
+    writeGeminiStatusError(res, 404, `models/${name} is not found for API version, or is not supported.`);
+    return;
+  }
+  writeJson(res, 200, toGeminiModel(model));
+}
+
+/**
+ * POST /{v1,v1beta}/models/{model}:countTokens, sized with the model's tokenizer after the same
+ * translation `generateContent` applies. Accepts bare `contents` or a full `generateContentRequest`.
+ */
+export async function handleGeminiCountTokens(req: IncomingMessage, res: ServerResponse, modelName: string): Promise<void> {
+  const writeError: CompletionErrorWriter = (status, message) => writeGeminiStatusError(res, status, message);
+  let body: { contents?: GeminiContent[]; generateContentRequest?: GeminiRequest };
+  try {
+    body = await readJson(req);
+  } catch {
+    writeGeminiStatusError(res, 400, 'Invalid JSON payload received.');
+    return;
+  }
+
+  const geminiReq: GeminiRequest = body.generateContentRequest ?? { contents: body.contents ?? [] };
+  const invalid = validateGeminiRequest(geminiReq);
+  if (invalid) {
+    writeGeminiStatusError(res, 400, invalid);
+    return;
+  }
+
+  const model = await resolveCompletionModel(modelName, writeError);
+  if (!model) {
+    return;
+  }
+  const prepared = await prepareCompletion(toChatCompletionRequest(geminiReq, modelName), model, writeError, { fullHistory: true });
+  if (!prepared) {
+    return;
   }
+  const totalTokens = await prepared.promptTokens;
+  verbose(`Gemini countTokens model=${modelName} totalTokens=${totalTokens}`);
+  writeJson(res, 200, { totalTokens });
 }
@@ -1,16 +1,28 @@
+import type * as vscode from 'vscode';
 import { writeJson, writeErrorResponse } from '../utils';
-import { listCopilotModels } from '../../models';
+import { getMaxOutputTokens, hasLMApi, listChatModels, supportsImageInput, supportsToolCalling } from '../../models';
 import { verbose } from '../../log';
 import type { ServerResponse } from 'http';
 
 interface ModelObject {
   readonly id: string;
   readonly object: 'model';
+  /** The LM API does not report release dates; always 0. */
   readonly created: number;
   readonly owned_by: string;
   readonly permission: readonly unknown[];
   readonly root: string;
   readonly parent: null;
+  readonly name: string;
+  readonly vendor: string;
+  readonly family: string;
+  readonly version: string;
+  readonly max_input_tokens: number;
+  readonly max_output_tokens?: number;
+  readonly capabilities: {
+    readonly tools: boolean;
+    readonly vision: boolean;
+  };
 }
 
 interface ModelsListResponse {
@@ -18,24 +30,44 @@ interface ModelsListResponse {
   readonly data: readonly ModelObject[];
 }
 
+const toModelObject = (model: vscode.LanguageModelChat): ModelObject => ({
+  id: model.id,
+  object: 'model',
+  created: 0,
+  owned_by: model.vendor,
+  permission: [],
+  root: model.id,
+  parent: null,
+  name: model.name,
+  vendor: model.vendor,
+  family: model.family,
+  version: model.version,
+  max_input_tokens: model.maxInputTokens,
+  max_output_tokens: getMaxOutputTokens(model),
+  capabilities: {
+    tools: supportsToolCalling(model),
+    vision: supportsImageInput(model),
+  },
+});
+
+/**
+ * Without the Language Model API there is nothing to list; say so rather than returning an empty list.
+ */
+const writeLanguageModelApiMissing = (res: ServerResponse): void =>
+  writeErrorResponse(res, 503, 'Copilot unavailable', 'server_error', 'copilot_unavailable', 'missing_language_model_api');
+
 export const handleModelsRequest = async (res: ServerResponse): Promise<void> => {
+  if (!hasLMApi()) {
+    writeLanguageModelApiMissing(res);
+    return;
+  }
   try {
-    const modelIds = await listCopilotModels();
-    verbose(`Models listed: ${modelIds.length} available`);
-    
-    const models: ModelObject[] = modelIds.map((id: string) => ({
-      id,
-      object: 'model' as const,
-      created: Math.floor(Date.now() / 1000),
-      owned_by: 'copilot',
-      permission: [],
-      root: id,
-      parent: null,
-    }));
+    const models = await listChatModels();
+    verbose(`Models listed: ${models.length} available`);
 
     const response: ModelsListResponse = {
       object: 'list',
-      data: models,
+      data: models.map(toModelObject),
     };
     
     writeJson(res, 200, response);
@@ -45,3 +77,20 @@ export const handleModelsRequest = async (res: ServerResponse): Promise<void> =>
     writeErrorResponse(res, 500, msg || 'Failed to list models', 'server_error', 'internal_error');
   }
 };
+
+/**
+ * GET /v1/models/{id}: matches a listed model id, or else the first model of that family.
+ */
+export const handleModelGet = async (res: ServerResponse, id: string): Promise<void> => {
+  if (!hasLMApi()) {
+    writeLanguageModelApiMissing(res);
+    return;
+  }
+  const models = await listChatModels();
+  const model = models.find((m) => m.id === id) ?? models.find((m) => m.family === id);
+  if (!model) {
+    writeErrorResponse(res, 404, `The model '${id}' does not exist`, 'invalid_request_error', 'model_not_found');
+    return;
+  }
+  writeJson(res, 200, toModelObject(model));
+};
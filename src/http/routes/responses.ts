@@ -1,63 +1,73 @@
 import * as vscode from 'vscode';
 import type { IncomingMessage, ServerResponse } from 'http';
 import { state } from '../../state';
-import { readJson, writeErrorResponse, writeJson } from '../utils';
+import {
+  acquireRequestSlot,
+  isClientGone,
+  onClientDisconnect,
+  readJson,
+  setBridgeHeaders,
+  waitForRequestSlot,
+  writeErrorResponse,
+  writeJson,
+  writeRateLimit,
+} from '../utils';
 import { verbose } from '../../log';
-import { getModel, hasLMApi } from '../../models';
 import { getBridgeConfig } from '../../config';
+import type { ChatCompletionRequest, ChatMessage, MessageContent, Tool, ToolCall } from '../../messages';
+import type { OpenAIToolCall } from '../../types/openai-types';
+import type {
+  AiSdkContentPart,
+  AiSdkInputItem,
+  AiSdkMessage,
+  AiSdkOutputFunctionCall,
+  AiSdkOutputItem,
+  AiSdkOutputMessage,
+  AiSdkRequest,
+  AiSdkResponse,
+  AiSdkResponseStatus,
+  AiSdkStreamEvent,
+  AiSdkTextFormat,
+  AiSdkTextPart,
+  AiSdkTool,
+  AiSdkToolChoice,
+  AiSdkUsage,
+} from '../../types/responses-types';
+import { deleteStoredResponse, expandPreviousResponse, getStoredResponse, saveResponse } from '../../response-store';
+import {
+  prepareCompletion,
+  resolveCompletionModel,
+  runCompletion,
+  type CompletionErrorWriter,
+  type CompletionResult,
+  type PreparedCompletion,
+} from '../../completion';
 
-/**
- * AI SDK Response format types (OpenAI Responses API)
- */
-interface AiSdkContentPart {
-  type: 'input_text' | 'output_text';
-  text: string;
-  annotations?: unknown[];
-}
-
-interface AiSdkMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string | AiSdkContentPart[];
-}
-
-interface AiSdkRequest {
-  model: string;
-  input: AiSdkMessage[];
-  temperature?: number;
-  max_output_tokens?: number;
-  stream?: boolean;
-  // Other fields from AI SDK
-  [key: string]: unknown;
-}
-
-interface AiSdkOutputContentPart {
-  type: 'output_text';
-  text: string;
-  annotations: unknown[];
-}
+const isContent = (content: unknown): content is string | AiSdkContentPart[] =>
+  typeof content === 'string' || Array.isArray(content);
 
-interface AiSdkOutputMessage {
-  id: string;
-  type: 'message';
-  role: 'assistant';
-  content: AiSdkOutputContentPart[];
-}
-
-interface AiSdkUsage {
-  input_tokens: number;
-  output_tokens: number;
-  total_tokens: number;
-}
+// Roles a message item may take; others would be silently dropped during conversion, so they are rejected
+const MESSAGE_ROLES: ReadonlySet<AiSdkMessage['role']> = new Set(['user', 'assistant', 'system', 'developer']);
 
-interface AiSdkResponse {
-  id: string;
-  model: string;
-  object: 'response';
-  created: number;
-  created_at?: number;  // Unix timestamp in seconds
-  output: AiSdkOutputMessage[];
-  usage: AiSdkUsage;
-}
+const isAiSdkInputItem = (item: unknown): item is AiSdkInputItem => {
+  if (!item || typeof item !== 'object') return false;
+  const candidate = item as Record<string, unknown>;
+  switch (candidate.type) {
+    case 'function_call':
+      return (
+        typeof candidate.call_id === 'string' &&
+        typeof candidate.name === 'string' &&
+        typeof candidate.arguments === 'string'
+      );
+    case 'function_call_output':
+      return typeof candidate.call_id === 'string' && isContent(candidate.output);
+    case undefined:
+    case 'message':
+      return MESSAGE_ROLES.has(candidate.role as AiSdkMessage['role']) && isContent(candidate.content);
+    default:
+      return false;
+  }
+};
 
 /**
  * Validates if the body is a valid AI SDK request
@@ -67,19 +77,16 @@ function isAiSdkRequest(body: unknown): body is AiSdkRequest {
   const req = body as Record<string, unknown>;
   return (
     typeof req.model === 'string' &&
-    Array.isArray(req.input) &&
-    req.input.every(
-      (msg: unknown) =>
-        msg &&
-        typeof msg === 'object' &&
-        'role' in msg &&
-        'content' in msg &&
-        (typeof (msg as AiSdkMessage).content === 'string' ||
-          Array.isArray((msg as AiSdkMessage).content))
-    )
+    (typeof req.input === 'string' || (Array.isArray(req.input) && req.input.every(isAiSdkInputItem))) &&
+    (req.instructions === undefined || typeof req.instructions === 'string') &&
+    (req.previous_response_id === undefined || typeof req.previous_response_id === 'string') &&
+    (req.tools === undefined || Array.isArray(req.tools))
   );
 }
 
+const isTextPart = (part: AiSdkContentPart): part is AiSdkTextPart =>
+  part.type === 'input_text' || part.type === 'output_text';
+
 /**
  * Extract text content from AI SDK content (handles both string and array formats)
  */
@@ -89,143 +96,669 @@ function extractTextContent(content: string | AiSdkContentPart[]): string {
   }
   // Join all text parts
   return content
-    .filter((part) => part.type === 'input_text' || part.type === 'output_text')
+    .filter(isTextPart)
     .map((part) => part.text)
     .join('');
 }
 
 /**
- * Convert AI SDK messages to VS Code LM messages
+ * Message content as chat content: plain text, or text and `image_url` parts when images are present.
  */
-function convertAiSdkMessagesToLM(messages: AiSdkMessage[]): vscode.LanguageModelChatMessage[] {
-  return messages.map((msg) => {
-    const textContent = extractTextContent(msg.content);
-    switch (msg.role) {
-      case 'system':
-        return vscode.LanguageModelChatMessage.User(textContent);
-      case 'user':
-        return vscode.LanguageModelChatMessage.User(textContent);
-      case 'assistant':
-        return vscode.LanguageModelChatMessage.Assistant(textContent);
-      default:
-        return vscode.LanguageModelChatMessage.User(textContent);
+function toMessageContent(content: string | AiSdkContentPart[]): string | MessageContent[] {
+  if (typeof content === 'string' || !content.some((part) => part.type === 'input_image')) {
+    return extractTextContent(content);
+  }
+  return content.flatMap((part): MessageContent[] => {
+    if (part.type === 'input_image' && part.image_url) {
+      return [{ type: 'image_url', image_url: { url: part.image_url, detail: part.detail } }];
     }
+    return isTextPart(part) ? [{ type: 'text', text: part.text }] : [];
   });
 }
 
+/**
+ * Finds content the bridge cannot pass to the model: files, and images given only as a `file_id`.
+ */
+function findUnsupportedContent(items: readonly AiSdkInputItem[]): string | undefined {
+  for (const item of items) {
+    const content = 'content' in item ? item.content : 'output' in item ? item.output : undefined;
+    if (!Array.isArray(content)) continue;
+    for (const part of content) {
+      if (part.type === 'input_file') {
+        return 'input_file parts are not supported';
+      }
+      if (part.type === 'input_image' && typeof part.image_url !== 'string') {
+        return 'input_image parts need an image_url (file_id is not supported)';
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Converts input items to chat messages. Consecutive `function_call` items join the preceding
+ * assistant message as its tool calls; `function_call_output` items become tool messages.
+ */
+function toChatMessages(items: AiSdkInputItem[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  for (const item of items) {
+    if (item.type === 'function_call') {
+      const call: ToolCall = {
+        id: item.call_id,
+        type: 'function',
+        function: { name: item.name, arguments: item.arguments },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === 'assistant') {
+        messages[messages.length - 1] = { ...last, tool_calls: [...(last.tool_calls ?? []), call] };
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [call] });
+      }
+    } else if (item.type === 'function_call_output') {
+      messages.push({ role: 'tool', tool_call_id: item.call_id, content: extractTextContent(item.output) });
+    } else {
+      messages.push({ role: item.role, content: toMessageContent(item.content) });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Maps Responses API tools onto chat tools; built-in tools (web search, file search, …) are skipped.
+ */
+function toTools(tools: AiSdkTool[] | undefined): Tool[] | undefined {
+  const functions = (tools ?? []).filter(
+    (tool): tool is AiSdkTool & { name: string } => tool.type === 'function' && typeof tool.name === 'string'
+  );
+  if (functions.length < (tools?.length ?? 0)) {
+    verbose(`AI SDK request: ignoring ${(tools?.length ?? 0) - functions.length} non-function tools`);
+  }
+  if (functions.length === 0) {
+    return undefined;
+  }
+  return functions.map((tool) => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+function toToolChoice(choice: AiSdkToolChoice | undefined): ChatCompletionRequest['tool_choice'] {
+  if (typeof choice === 'string') {
+    return choice;
+  }
+  if (choice?.type === 'function' && typeof choice.name === 'string') {
+    return { type: 'function', function: { name: choice.name } };
+  }
+  return undefined;
+}
+
+function toResponseFormat(format: AiSdkTextFormat | undefined): ChatCompletionRequest['response_format'] {
+  switch (format?.type) {
+    case 'json_object':
+      return { type: 'json_object' };
+    case 'json_schema':
+      return { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: format.strict } };
+    default:
+      return undefined;
+  }
+}
+
+function toChatCompletionRequest(body: AiSdkRequest, input: AiSdkInputItem[]): ChatCompletionRequest {
+  const messages = toChatMessages(input);
+  if (body.instructions) {
+    messages.unshift({ role: 'system', content: body.instructions });
+  }
+  return {
+    model: body.model,
+    messages,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    max_completion_tokens: body.max_output_tokens,
+    response_format: toResponseFormat(body.text?.format),
+    tools: toTools(body.tools),
+    tool_choice: toToolChoice(body.tool_choice),
+    parallel_tool_calls: body.parallel_tool_calls,
+  };
+}
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+} as const;
+
+/**
+ * Writes Responses API events with increasing `sequence_number`s.
+ * The SSE head is written with the first event, so errors raised before that still get a JSON body.
+ */
+function createEventWriter(res: ServerResponse): (event: AiSdkStreamEvent) => void {
+  let sequenceNumber = 0;
+  return (event) => {
+    if (isClientGone(res)) {
+      return;
+    }
+    if (!res.headersSent) {
+      // Disable Nagle's algorithm for lower latency streaming
+      res.socket?.setNoDelay(true);
+      res.writeHead(200, SSE_HEADERS);
+    }
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify({ ...event, sequence_number: sequenceNumber++ })}\n\n`);
+  };
+}
+
+const createId = (prefix: string): string => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+/**
+ * The parts of a response object that are fixed when the request arrives.
+ */
+interface ResponseContext {
+  readonly id: string;
+  readonly model: string;
+  readonly createdAt: number;
+  readonly previousResponseId: string | null;
+  readonly background: boolean;
+}
+
+function createResponseObject(
+  context: ResponseContext,
+  status: AiSdkResponseStatus,
+  output: AiSdkOutputItem[],
+  usage: AiSdkUsage | null,
+  error: AiSdkResponse['error'] = null
+): AiSdkResponse {
+  return {
+    id: context.id,
+    model: context.model,
+    object: 'response',
+    created: context.createdAt,
+    created_at: context.createdAt,
+    status,
+    incomplete_details: status === 'incomplete' ? { reason: 'max_output_tokens' } : null,
+    previous_response_id: context.previousResponseId,
+    background: context.background,
+    error,
+    output,
+    usage,
+  };
+}
+
+function createOutputMessage(id: string, text: string): AiSdkOutputMessage {
+  return {
+    id,
+    type: 'message',
+    role: 'assistant',
+    content: [{ type: 'output_text', text, annotations: [] }],
+  };
+}
+
+function createOutputFunctionCall(toolCall: OpenAIToolCall): AiSdkOutputFunctionCall {
+  return {
+    id: createId('fc'),
+    type: 'function_call',
+    call_id: toolCall.id,
+    name: toolCall.function.name,
+    arguments: toolCall.function.arguments,
+    status: 'completed',
+  };
+}
+
+/**
+ * Output items for a finished completion: the assistant message (kept when empty only if
+ * there is nothing else to return), followed by one `function_call` item per tool call.
+ */
+function createOutputItems(result: CompletionResult): AiSdkOutputItem[] {
+  const output: AiSdkOutputItem[] = [];
+  if (result.content.length > 0 || result.toolCalls.length === 0) {
+    output.push(createOutputMessage(createId('msg'), result.content));
+  }
+  output.push(...result.toolCalls.map(createOutputFunctionCall));
+  return output;
+}
+
+function toAiSdkUsage(result: CompletionResult): AiSdkUsage {
+  return {
+    input_tokens: result.usage.prompt_tokens,
+    output_tokens: result.usage.completion_tokens,
+    total_tokens: result.usage.total_tokens,
+  };
+}
+
+/**
+ * Streams the Responses API event sequence: response.created, then for each output item
+ * output_item.added … output_item.done, then response.completed. Text arrives as a message item
+ * (content_part.added, output_text.delta*, output_text.done, content_part.done); each tool call
+ * as a function_call item (function_call_arguments.delta, function_call_arguments.done).
+ * @returns The final response object, or undefined when the request failed or the client left
+ */
+async function streamAiSdkResponse(
+  res: ServerResponse,
+  prepared: PreparedCompletion,
+  context: ResponseContext,
+  cancellationToken: vscode.CancellationTokenSource
+): Promise<AiSdkResponse | undefined> {
+  const writeEvent = createEventWriter(res);
+  const writeError: CompletionErrorWriter = (status, message, type, code) => {
+    if (res.headersSent) {
+      writeEvent({ type: 'error', code, message, param: null });
+      res.end();
+    } else {
+      writeErrorResponse(res, status, message, type, code);
+    }
+  };
+
+  let started = false;
+  const ensureStarted = (): void => {
+    if (started) {
+      return;
+    }
+    started = true;
+    const response = createResponseObject(context, 'in_progress', [], null);
+    writeEvent({ type: 'response.created', response });
+    writeEvent({ type: 'response.in_progress', response });
+  };
+
+  const output: AiSdkOutputItem[] = [];
+  // The message item currently receiving text deltas, if any
+  let openMessage: { id: string; index: number; text: string } | undefined;
+
+  const openMessageItem = (): { id: string; index: number; text: string } => {
+    if (openMessage) {
+      return openMessage;
+    }
+    ensureStarted();
+    openMessage = { id: createId('msg'), index: output.length, text: '' };
+    writeEvent({
+      type: 'response.output_item.added',
+      output_index: openMessage.index,
+      item: { id: openMessage.id, type: 'message', status: 'in_progress', role: 'assistant', content: [] },
+    });
+    writeEvent({
+      type: 'response.content_part.added',
+      item_id: openMessage.id,
+      output_index: openMessage.index,
+      content_index: 0,
+      part: { type: 'output_text', text: '', annotations: [] },
+    });
+    return openMessage;
+  };
+
+  const closeMessageItem = (): void => {
+    if (!openMessage) {
+      return;
+    }
+    const { id, index, text } = openMessage;
+    const message = createOutputMessage(id, text);
+    writeEvent({ type: 'response.output_text.done', item_id: id, output_index: index, content_index: 0, text });
+    writeEvent({ type: 'response.content_part.done', item_id: id, output_index: index, content_index: 0, part: message.content[0] });
+    writeEvent({ type: 'response.output_item.done', output_index: index, item: { ...message, status: 'completed' } });
+    output.push(message);
+    openMessage = undefined;
+  };
+
+  const writeFunctionCallItem = (toolCall: OpenAIToolCall): void => {
+    ensureStarted();
+    closeMessageItem();
+    const item = createOutputFunctionCall(toolCall);
+    const index = output.length;
+    writeEvent({
+      type: 'response.output_item.added',
+      output_index: index,
+      item: { ...item, arguments: '', status: 'in_progress' },
+    });
+    writeEvent({ type: 'response.function_call_arguments.delta', item_id: item.id, output_index: index, delta: item.arguments });
+    writeEvent({ type: 'response.function_call_arguments.done', item_id: item.id, output_index: index, arguments: item.arguments });
+    writeEvent({ type: 'response.output_item.done', output_index: index, item });
+    output.push(item);
+  };
+
+  let result: CompletionResult | undefined;
+  try {
+    result = await runCompletion(prepared, cancellationToken, writeError, {
+      onText: (delta) => {
+        const message = openMessageItem();
+        message.text += delta;
+        writeEvent({ type: 'response.output_text.delta', item_id: message.id, output_index: message.index, content_index: 0, delta });
+      },
+      onToolCall: (toolCall) => writeFunctionCallItem(toolCall),
+    });
+  } catch (error) {
+    if (!res.headersSent || cancellationToken.token.isCancellationRequested) {
+      throw error;
+    }
+    // Mid-stream failure: report it as an `error` event, then close the stream
+    const message = error instanceof Error ? error.message : String(error);
+    writeEvent({ type: 'error', code: 'internal_error', message: message || 'internal_error', param: null });
+    res.end();
+    return;
+  }
+  if (!result || isClientGone(res)) {
+    return;
+  }
+
+  ensureStarted();
+  if (output.length === 0) {
+    // Always finish with at least one item, even for an empty reply
+    openMessageItem();
+  }
+  closeMessageItem();
+  const status: AiSdkResponseStatus = result.finishReason === 'length' ? 'incomplete' : 'completed';
+  const response = createResponseObject(context, status, output, toAiSdkUsage(result));
+  writeEvent({ type: status === 'completed' ? 'response.completed' : 'response.incomplete', response });
+  res.end();
+  return response;
+}
+
+/**
+ * Validates a request and expands its `previous_response_id`, writing a 400 when either fails.
+ * @returns The full conversation to send, or undefined once an error was written
+ */
+function resolveInput(res: ServerResponse, body: AiSdkRequest): AiSdkInputItem[] | undefined {
+  const previousInput = body.previous_response_id ? expandPreviousResponse(body.previous_response_id) : [];
+  if (!previousInput) {
+    writeErrorResponse(
+      res,
+      400,
+      `Previous response with id '${body.previous_response_id}' not found.`,
+      'invalid_request_error',
+      'previous_response_not_found'
+    );
+    return undefined;
+  }
+  const input = [
+    ...previousInput,
+    ...(typeof body.input === 'string' ? [{ role: 'user' as const, content: body.input }] : body.input),
+  ];
+  const unsupported = findUnsupportedContent(input);
+  if (unsupported) {
+    writeErrorResponse(res, 400, unsupported, 'invalid_request_error', 'unsupported_content');
+    return undefined;
+  }
+  return input;
+}
+
 /**
  * Handles AI SDK /v1/responses endpoint
  */
 export async function handleAiSdkResponse(req: IncomingMessage, res: ServerResponse): Promise<void> {
-  state.activeRequests++;
+  let body: unknown;
+  try {
+    body = await readJson(req);
+  } catch {
+    writeErrorResponse(res, 400, 'request body is not valid JSON', 'invalid_request_error', 'invalid_payload');
+    return;
+  }
+
+  // Log the actual request body for debugging
+  verbose(`AI SDK request body: ${JSON.stringify(body, null, 2)}`);
+
+  if (!isAiSdkRequest(body)) {
+    verbose(`AI SDK request validation failed. Body: ${JSON.stringify(body)}`);
+    writeErrorResponse(res, 400, 'invalid request format', 'invalid_request_error', 'invalid_payload');
+    return;
+  }
+  if (body.background === true && (body.stream === true || body.store === false)) {
+    writeErrorResponse(
+      res,
+      400,
+      'background responses must be stored and cannot be streamed',
+      'invalid_request_error',
+      'unsupported_background'
+    );
+    return;
+  }
+
+  const input = resolveInput(res, body);
+  if (!input) {
+    return;
+  }
+  const context: ResponseContext = {
+    id: createId('resp'),
+    model: body.model,
+    createdAt: Math.floor(Date.now() / 1000),
+    previousResponseId: body.previous_response_id ?? null,
+    background: body.background === true,
+  };
+
+  if (context.background) {
+    if (backgroundResponses.size >= MAX_BACKGROUND_RESPONSES) {
+      verbose(`429 background queue full (${backgroundResponses.size} queued or running)`);
+      writeRateLimit(res);
+      return;
+    }
+    const queued = createResponseObject(context, 'queued', [], null);
+    saveResponse(queued, input);
+    void runBackgroundResponse(body, input, context);
+    writeJson(res, 200, queued);
+    return;
+  }
+
+  // Rate limiting check; background responses queue for a slot instead
+  const config = getBridgeConfig();
+  if (state.activeRequests >= config.maxConcurrent) {
+    if (config.verbose) {
+      verbose(`429 throttled (active=${state.activeRequests}, max=${config.maxConcurrent})`);
+    }
+    writeRateLimit(res);
+    return;
+  }
+
+  await respond(req, res, body, input, context);
+}
+
+/**
+ * Generates a response while the client waits, as JSON or as an SSE event stream.
+ */
+async function respond(
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: AiSdkRequest,
+  input: AiSdkInputItem[],
+  context: ResponseContext
+): Promise<void> {
+  const releaseSlot = acquireRequestSlot();
   verbose(`AI SDK request started (active=${state.activeRequests})`);
 
+  const cancellationToken = new vscode.CancellationTokenSource();
+  const stopWatching = onClientDisconnect(req, res, () => {
+    verbose('AI SDK client disconnected; cancelling model request');
+    cancellationToken.cancel();
+    releaseSlot();
+  });
+  const writeError: CompletionErrorWriter = (status, message, type, code, reason) =>
+    reason
+      ? writeErrorResponse(res, status, message, type, code, reason)
+      : writeErrorResponse(res, status, message, type, code);
+
   try {
-    const body = await readJson(req);
-    
-    // Log the actual request body for debugging
-    verbose(`AI SDK request body: ${JSON.stringify(body, null, 2)}`);
-    
-    if (!isAiSdkRequest(body)) {
-      verbose(`AI SDK request validation failed. Body: ${JSON.stringify(body)}`);
-      writeErrorResponse(res, 400, 'invalid request format', 'invalid_request_error', 'invalid_payload');
+    const model = await resolveCompletionModel(body.model, writeError);
+    if (!model || cancellationToken.token.isCancellationRequested) {
       return;
     }
 
-    // Resolve model
-    const model = await getModel(false, body.model);
-    if (!model) {
-      const hasLanguageModels = hasLMApi();
-      if (body.model && hasLanguageModels) {
-        writeErrorResponse(res, 404, 'model not found', 'invalid_request_error', 'model_not_found', 'not_found');
-      } else {
-        const reason = hasLanguageModels ? 'copilot_model_unavailable' : 'missing_language_model_api';
-        writeErrorResponse(res, 503, 'Copilot unavailable', 'server_error', 'copilot_unavailable', reason);
-      }
+    const prepared = await prepareCompletion(toChatCompletionRequest(body, input), model, writeError);
+    if (!prepared) {
       return;
     }
-
-    // Convert messages
-    const config = getBridgeConfig();
-    const lmMessages = convertAiSdkMessagesToLM(body.input);
-    
-    // Apply history window
-    const recentMessages = lmMessages.slice(-config.historyWindow * 2);
+    setBridgeHeaders(res, prepared.headers);
     
-    verbose(`AI SDK LM request model=${model.family || model.id || 'unknown'}`);
-
-    // Send request to LM
-    const cancellationToken = new vscode.CancellationTokenSource();
-    
-    try {
-      const response = await model.sendRequest(
-        recentMessages,
-        {},
-        cancellationToken.token
-      );
+    verbose(`AI SDK LM request model=${model.family || model.id || 'unknown'} stream=${body.stream === true} tools=${prepared.toolCount}`);
 
-      // Collect full response
-      let fullContent = '';
-      try {
-        for await (const chunk of response.text) {
-          fullContent += chunk;
-        }
-      } finally {
-        if ('dispose' in response && typeof response.dispose === 'function') {
-          response.dispose();
-        }
+    const store = (response: AiSdkResponse): void => {
+      if (body.store !== false) {
+        saveResponse(response, input);
       }
+    };
 
-      // Build AI SDK compatible response
-      // Estimate token counts (rough approximation: 1 token ~= 4 characters)
-      const inputText = recentMessages.map(m => 
-        typeof m.content === 'string' ? m.content : 
-        Array.isArray(m.content) ? m.content.map(p => typeof p === 'string' ? p : '').join('') : ''
-      ).join('');
-      const inputTokens = Math.ceil(inputText.length / 4);
-      const outputTokens = Math.ceil(fullContent.length / 4);
-      
-      const nowMs = Date.now();
-      const nowSec = Math.floor(nowMs / 1000);
-      
-      const aiSdkResponse: AiSdkResponse = {
-        id: `resp_${nowMs}_${Math.random().toString(36).substring(7)}`,
-        model: body.model,
-        object: 'response',
-        created: nowSec,
-        created_at: nowSec,
-        output: [
-          {
-            id: `msg_${nowMs}_${Math.random().toString(36).substring(7)}`,
-            type: 'message',
-            role: 'assistant',
-            content: [
-              {
-                type: 'output_text',
-                text: fullContent,
-                annotations: [],
-              },
-            ],
-          },
-        ],
-        usage: {
-          input_tokens: inputTokens,
-          output_tokens: outputTokens,
-          total_tokens: inputTokens + outputTokens,
-        },
-      };
+    if (body.stream === true) {
+      const response = await streamAiSdkResponse(res, prepared, context, cancellationToken);
+      if (response) {
+        store(response);
+      }
+      verbose(`AI SDK stream complete`);
+      return;
+    }
 
-      writeJson(res, 200, aiSdkResponse);
-      verbose(`AI SDK request complete`);
-    } finally {
-      cancellationToken.dispose();
+    const result = await runCompletion(prepared, cancellationToken, writeError);
+    if (!result || isClientGone(res)) {
+      verbose(`AI SDK request aborted by client`);
+      return;
     }
+
+    const aiSdkResponse = createResponseObject(
+      context,
+      result.finishReason === 'length' ? 'incomplete' : 'completed',
+      createOutputItems(result),
+      toAiSdkUsage(result)
+    );
+    store(aiSdkResponse);
+
+    writeJson(res, 200, aiSdkResponse);
+    verbose(`AI SDK request complete`);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     verbose(`AI SDK request error: ${errorMessage}`);
-    writeErrorResponse(res, 500, errorMessage || 'internal_error', 'server_error', 'internal_error');
+    if (cancellationToken.token.isCancellationRequested || isClientGone(res)) {
+      return;
+    }
+    if (res.headersSent) {
+      res.end();
+    } else {
+      writeErrorResponse(res, 500, errorMessage || 'internal_error', 'server_error', 'internal_error');
+    }
   } finally {
-    state.activeRequests--;
+    stopWatching();
+    cancellationToken.dispose();
+    releaseSlot();
     verbose(`AI SDK request cleanup (active=${state.activeRequests})`);
   }
 }
+
+// Background responses that are queued or running, by response id
+const backgroundResponses = new Map<string, vscode.CancellationTokenSource>();
+
+// Each queued job holds its whole conversation, so the queue is bounded
+const MAX_BACKGROUND_RESPONSES = 32;
+
+/**
+ * Generates a background response once a request slot is free, recording each status change in the
+ * response store for GET polling. Errors are recorded as a `failed` response rather than thrown.
+ * Once the response is cancelled or deleted its entry is left alone, so a late result or error
+ * cannot bring it back.
+ */
+async function runBackgroundResponse(body: AiSdkRequest, input: AiSdkInputItem[], context: ResponseContext): Promise<void> {
+  const cancellationToken = new vscode.CancellationTokenSource();
+  backgroundResponses.set(context.id, cancellationToken);
+  const isLive = (): boolean => {
+    const stored = getStoredResponse(context.id);
+    return stored !== undefined && stored.response.status !== 'cancelled';
+  };
+  const update = (response: AiSdkResponse): void => {
+    if (isLive()) {
+      saveResponse(response, input);
+    }
+  };
+  const fail = (code: string, message: string): void =>
+    update(createResponseObject(context, 'failed', [], null, { code, message }));
+  const writeError: CompletionErrorWriter = (_status, message, _type, code) => fail(code, message);
+
+  const releaseSlot = await waitForRequestSlot();
+  verbose(`AI SDK background response ${context.id} started (active=${state.activeRequests})`);
+  try {
+    if (!isLive()) {
+      return;
+    }
+    update(createResponseObject(context, 'in_progress', [], null));
+
+    const model = await resolveCompletionModel(body.model, writeError);
+    if (!model || !isLive()) {
+      return;
+    }
+    const prepared = await prepareCompletion(toChatCompletionRequest(body, input), model, writeError);
+    if (!prepared) {
+      return;
+    }
+
+    // The token is also cancelled when an output limit is reached, so only the stored status tells
+    // whether the client cancelled
+    const result = await runCompletion(prepared, cancellationToken, writeError);
+    if (!result) {
+      return;
+    }
+    update(
+      createResponseObject(
+        context,
+        result.finishReason === 'length' ? 'incomplete' : 'completed',
+        createOutputItems(result),
+        toAiSdkUsage(result)
+      )
+    );
+    verbose(`AI SDK background response ${context.id} complete`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    verbose(`AI SDK background response ${context.id} error: ${errorMessage}`);
+    fail('internal_error', errorMessage || 'internal_error');
+  } finally {
+    backgroundResponses.delete(context.id);
+    cancellationToken.dispose();
+    releaseSlot();
+    verbose(`AI SDK background response ${context.id} cleanup (active=${state.activeRequests})`);
+  }
+}
+
+const writeResponseNotFound = (res: ServerResponse, id: string): void =>
+  writeErrorResponse(res, 404, `Response with id '${id}' not found.`, 'invalid_request_error', 'response_not_found');
+
+/**
+ * Handles GET /v1/responses/{id}: returns a stored response.
+ */
+export function handleAiSdkResponseGet(res: ServerResponse, id: string): void {
+  const stored = getStoredResponse(id);
+  if (!stored) {
+    writeResponseNotFound(res, id);
+    return;
+  }
+  writeJson(res, 200, stored.response);
+}
+
+/**
+ * Handles DELETE /v1/responses/{id}: forgets a stored response, stopping it first if it is a
+ * queued or running background response.
+ */
+export function handleAiSdkResponseDelete(res: ServerResponse, id: string): void {
+  if (!deleteStoredResponse(id)) {
+    writeResponseNotFound(res, id);
+    return;
+  }
+  backgroundResponses.get(id)?.cancel();
+  writeJson(res, 200, { id, object: 'response', deleted: true });
+}
+
+/**
+ * Handles POST /v1/responses/{id}/cancel: stops a queued or running background response.
+ * Cancelling an already cancelled response returns it unchanged.
+ */
+export function handleAiSdkResponseCancel(res: ServerResponse, id: string): void {
+  const stored = getStoredResponse(id);
+  if (!stored) {
+    writeResponseNotFound(res, id);
+    return;
+  }
+  const cancellationToken = backgroundResponses.get(id);
+  if (!cancellationToken) {
+    if (stored.response.status === 'cancelled') {
+      writeJson(res, 200, stored.response);
+      return;
+    }
+    const message = stored.response.background
+      ? `Cannot cancel a response with status '${stored.response.status}'.`
+      : 'Only background responses can be cancelled.';
+    writeErrorResponse(res, 400, message, 'invalid_request_error', 'response_not_cancellable');
+    return;
+  }
+
+  cancellationToken.cancel();
+  const cancelled = { ...stored.response, status: 'cancelled' as const };
+  saveResponse(cancelled, stored.input);
+  verbose(`AI SDK background response ${id} cancelled`);
+  writeJson(res, 200, cancelled);
+}
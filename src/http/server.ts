@@ -1,17 +1,29 @@
-import polka from 'polka';
+import polka, { type PolkaRequest } from 'polka';
 import type { Server, IncomingMessage, ServerResponse } from 'http';
 import { getBridgeConfig } from '../config';
 import { state } from '../state';
 import { isAuthorized } from './auth';
 import { handleHealthCheck } from './routes/health';
-import { handleModelsRequest } from './routes/models';
+import { handleModelGet, handleModelsRequest } from './routes/models';
 import { handleChatCompletion } from './routes/chat';
-import { handleAiSdkResponse } from './routes/responses';
+import {
+  handleAiSdkResponse,
+  handleAiSdkResponseCancel,
+  handleAiSdkResponseDelete,
+  handleAiSdkResponseGet,
+} from './routes/responses';
 import { writeErrorResponse, writeNotFound, writeRateLimit, writeTokenRequired, writeUnauthorized } from './utils';
 import { ensureOutput, verbose } from '../log';
 import { updateStatus } from '../status';
-import { anthropicMessages } from './routes/anthropic';
-import { handleGeminiGenerateContent } from './routes/gemini';
+import { anthropicCountTokens, anthropicMessages, writeAnthropicStatusError } from './routes/anthropic';
+import {
+  handleGeminiCountTokens,
+  handleGeminiGenerateContent,
+  handleGeminiModelGet,
+  handleGeminiModelsList,
+  isGoogleClient,
+  writeGeminiStatusError,
+} from './routes/gemini';
 
 export const startServer = async (): Promise<void> => {
   if (state.server) return;
@@ -39,56 +51,95 @@ export const startServer = async (): Promise<void> => {
     if (path === '/health') {
       return next();
     }
+    // Anthropic clients only understand their own error shape
+    const anthropic = path.startsWith('/v1/messages');
     const token = getBridgeConfig().token;
     if (!token) {
       if (config.verbose) {
         verbose('401 unauthorized: missing auth token');
       }
-      writeTokenRequired(res);
+      if (anthropic) {
+        writeAnthropicStatusError(res, 401, 'auth token required');
+      } else {
+        writeTokenRequired(res);
+      }
       return;
     }
     if (!isAuthorized(req, token)) {
-      writeUnauthorized(res);
+      if (anthropic) {
+        writeAnthropicStatusError(res, 401, 'invalid x-api-key');
+      } else {
+        writeUnauthorized(res);
+      }
       return;
     }
     next();
   });
 
-  // Gemini API compatibility: intercept requests before route matching
-  app.use(async (req: IncomingMessage, res: ServerResponse, next) => {
-    const url = req.url || '';
-    
-    // Only intercept POST requests to /v1/models/{model}:generateContent
-    if (req.method !== 'POST' || !url.startsWith('/v1/models/') || !url.match(/:(?:stream)?[gG]enerateContent/)) {
-      return next();
-    }
+  // Verbose logging middleware
+  if (config.verbose) {
+    app.use((req, res, next) => {
+      verbose(`${req.method} ${req.url}`);
+      next();
+    });
+  }
 
-    if (config.verbose) {
-      verbose(`Gemini API intercepted: ${url}`);
+  app.get('/health', async (_req: IncomingMessage, res: ServerResponse) => {
+    await handleHealthCheck(res, config.verbose);
+  });
+
+  app.get('/v1/models', async (req: IncomingMessage, res: ServerResponse) => {
+    if (isGoogleClient(req)) {
+      await handleGeminiModelsList(res);
+      return;
     }
+    await handleModelsRequest(res);
+  });
 
-    // Rate limiting check
-    if (state.activeRequests >= config.maxConcurrent) {
-      if (config.verbose) {
-        verbose(`429 throttled (active=${state.activeRequests}, max=${config.maxConcurrent})`);
-      }
-      writeRateLimit(res);
+  app.get('/v1/models/:model', async (req: PolkaRequest, res: ServerResponse) => {
+    if (isGoogleClient(req)) {
+      await handleGeminiModelGet(res, decodeURIComponent(req.params?.model ?? ''));
       return;
     }
+    await handleModelGet(res, decodeURIComponent(req.params?.model ?? ''));
+  });
+
+  // Gemini API compatibility: the SDKs default to v1beta; v1 is served too
+  app.get('/v1beta/models', async (_req: IncomingMessage, res: ServerResponse) => {
+    await handleGeminiModelsList(res);
+  });
+
+  app.get('/v1beta/models/:model', async (req: PolkaRequest, res: ServerResponse) => {
+    await handleGeminiModelGet(res, decodeURIComponent(req.params?.model ?? ''));
+  });
+
+  const handleGeminiMethod = async (req: PolkaRequest, res: ServerResponse): Promise<void> => {
+    // The route parameter is "{model}:{method}", e.g. "gemini-2.5-pro:streamGenerateContent"
+    const [modelName, method] = decodeURIComponent(req.params?.model ?? '').split(':');
+    if (config.verbose) {
+      verbose(`Gemini API: ${req.url} -> model: ${modelName} method: ${method}`);
+    }
 
     try {
-      // Extract model name from URL: /v1/models/{model}:generateContent?key=xxx
-      const urlWithoutQuery = url.split('?')[0];
-      const match = urlWithoutQuery.match(/\/v1\/models\/([^:]+):(?:stream)?[gG]enerateContent/);
-      const modelName = match?.[1] || 'gpt-4o-copilot';
+      if (method === 'countTokens') {
+        await handleGeminiCountTokens(req, res, modelName);
+        return;
+      }
+      if (method !== 'generateContent' && method !== 'streamGenerateContent') {
+        writeGeminiStatusError(res, 404, `Method not found: ${method ?? '(none)'}`);
+        return;
+      }
 
-      if (config.verbose) {
-        verbose(`Gemini API: ${url} -> model: ${modelName}`);
+      // Rate limiting check
+      if (state.activeRequests >= config.maxConcurrent) {
+        if (config.verbose) {
+          verbose(`429 throttled (active=${state.activeRequests}, max=${config.maxConcurrent})`);
+        }
+        writeGeminiStatusError(res, 429, 'Resource has been exhausted (too many concurrent requests).');
+        return;
       }
 
-      await handleGeminiGenerateContent(req, res, modelName);
-      // Important: Return here to prevent calling next() and avoid double response
-      return;
+      await handleGeminiGenerateContent(req, res, modelName, method === 'streamGenerateContent');
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
       if (config.verbose) {
@@ -96,27 +147,13 @@ export const startServer = async (): Promise<void> => {
       }
       // Only write error if headers haven't been sent
       if (!res.headersSent) {
-        writeErrorResponse(res, 500, msg || 'internal_error', 'server_error', 'internal_error');
+        writeGeminiStatusError(res, 500, msg || 'Internal error encountered.');
       }
-      return;
     }
-  });
+  };
 
-  // Verbose logging middleware
-  if (config.verbose) {
-    app.use((req, res, next) => {
-      verbose(`${req.method} ${req.url}`);
-      next();
-    });
-  }
-
-  app.get('/health', async (_req: IncomingMessage, res: ServerResponse) => {
-    await handleHealthCheck(res, config.verbose);
-  });
-
-  app.get('/v1/models', async (_req: IncomingMessage, res: ServerResponse) => {
-    await handleModelsRequest(res);
-  });
+  app.post('/v1/models/:model', handleGeminiMethod);
+  app.post('/v1beta/models/:model', handleGeminiMethod);
 
   app.post('/v1/chat/completions', async (req: IncomingMessage, res: ServerResponse) => {
     // Rate limiting check
@@ -137,15 +174,7 @@ export const startServer = async (): Promise<void> => {
   });
 
   app.post('/v1/responses', async (req: IncomingMessage, res: ServerResponse) => {
-    // Rate limiting check
-    if (state.activeRequests >= config.maxConcurrent) {
-      if (config.verbose) {
-        verbose(`429 throttled (active=${state.activeRequests}, max=${config.maxConcurrent})`);
-      }
-      writeRateLimit(res);
-      return;
-    }
-    
+    // Rate limited in the handler: background requests queue for a slot instead of getting 429
     try {
       await handleAiSdkResponse(req, res);
     } catch (e) {
@@ -154,7 +183,34 @@ export const startServer = async (): Promise<void> => {
     }
   });
   
-  app.post('/v1/messages', anthropicMessages);
+  app.get('/v1/responses/:id', (req: PolkaRequest, res: ServerResponse) => {
+    handleAiSdkResponseGet(res, decodeURIComponent(req.params?.id ?? ''));
+  });
+
+  app.delete('/v1/responses/:id', (req: PolkaRequest, res: ServerResponse) => {
+    handleAiSdkResponseDelete(res, decodeURIComponent(req.params?.id ?? ''));
+  });
+
+  app.post('/v1/responses/:id/cancel', (req: PolkaRequest, res: ServerResponse) => {
+    handleAiSdkResponseCancel(res, decodeURIComponent(req.params?.id ?? ''));
+  });
+
+  app.post('/v1/messages', async (req: IncomingMessage, res: ServerResponse) => {
+    // Rate limiting check
+    if (state.activeRequests >= config.maxConcurrent) {
+      if (config.verbose) {
+        verbose(`429 throttled (active=${state.activeRequests}, max=${config.maxConcurrent})`);
+      }
+      writeAnthropicStatusError(res, 429, 'too many concurrent requests');
+      return;
+    }
+
+    await anthropicMessages(req, res);
+  });
+
+  app.post('/v1/messages/count_tokens', async (req: IncomingMessage, res: ServerResponse) => {
+    await anthropicCountTokens(req, res);
+  });
 
   await new Promise<void>((resolve, reject) => {
     try {
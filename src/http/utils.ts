@@ -1,4 +1,6 @@
 import type { ServerResponse, IncomingMessage } from 'http';
+import { state } from '../state';
+import { getBridgeConfig } from '../config';
 
 export interface ErrorResponse {
   readonly error: {
@@ -109,6 +111,23 @@ export function writeErrorResponse(
   writeJson(res, status, { error: { message, type, code, ...(reason ? { reason } : {}) } });
 }
 
+/**
+ * Writes an error in the Anthropic Messages API shape (`{type:'error', error:{type,message}}`).
+ * Retryable statuses carry `Retry-After` so the Anthropic SDKs back off instead of failing.
+ */
+export const writeAnthropicError = (res: ServerResponse, status: number, type: string, message: string): void => {
+  res.writeHead(status, status === 429 || status === 529 ? RATE_LIMIT_HEADERS : JSON_HEADERS);
+  res.end(JSON.stringify({ type: 'error', error: { type, message } }));
+};
+
+/**
+ * Writes an error in the Google API shape (`{error:{code,status,message}}`) used by the Gemini routes.
+ */
+export const writeGoogleError = (res: ServerResponse, code: number, status: string, message: string): void => {
+  res.writeHead(code, code === 429 ? RATE_LIMIT_HEADERS : JSON_HEADERS);
+  res.end(JSON.stringify({ error: { code, status, message } }));
+};
+
 export const readJson = <T = unknown>(req: IncomingMessage): Promise<T> =>
   new Promise<T>((resolve, reject) => {
     let data = '';
@@ -122,3 +141,83 @@ export const readJson = <T = unknown>(req: IncomingMessage): Promise<T> =>
     });
     req.on('error', reject);
   });
+
+
+/**
+ * Copies the bridge's adaptation headers (trimmed history, ignored params) from a prepared completion.
+ */
+export const setBridgeHeaders = (res: ServerResponse, headers: Readonly<Record<string, string>>): void => {
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+};
+
+/**
+ * Reserves one of the `bridge.maxConcurrent` slots.
+ * The returned release function is idempotent so a disconnect can free the slot early
+ * without the handler's `finally` block double-decrementing.
+ */
+export const acquireRequestSlot = (): (() => void) => {
+  state.activeRequests++;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    state.activeRequests--;
+    wakeSlotWaiters();
+  };
+};
+
+// Queued work waiting for a free slot, oldest first
+const slotWaiters: (() => void)[] = [];
+
+const wakeSlotWaiters = (): void => {
+  while (slotWaiters.length > 0 && state.activeRequests < getBridgeConfig().maxConcurrent) {
+    slotWaiters.shift()!();
+  }
+};
+
+/**
+ * Reserves a slot like {@link acquireRequestSlot}, waiting for one to free up instead of failing.
+ * Used for work the client is not waiting on (background responses); interactive requests get 429 instead.
+ */
+export const waitForRequestSlot = (): Promise<() => void> =>
+  new Promise((resolve) => {
+    slotWaiters.push(() => resolve(acquireRequestSlot()));
+    wakeSlotWaiters();
+  });
+
+/**
+ * True once the client has gone away or the response has been ended; nothing more should be written.
+ */
+export const isClientGone = (res: ServerResponse): boolean => res.destroyed || res.writableEnded;
+
+/**
+ * Invokes `onDisconnect` once if the client drops the connection before the response completes.
+ * Returns a function that detaches the listeners.
+ */
+export const onClientDisconnect = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  onDisconnect: () => void
+): (() => void) => {
+  let fired = false;
+  const fire = (): void => {
+    if (fired) return;
+    fired = true;
+    onDisconnect();
+  };
+  // `close` on the request also fires after a normal body read, so only treat it as an abort when incomplete
+  const onRequestClose = (): void => {
+    if (!req.complete) fire();
+  };
+  const onResponseClose = (): void => {
+    if (!res.writableFinished) fire();
+  };
+  req.on('close', onRequestClose);
+  res.on('close', onResponseClose);
+  return () => {
+    req.off('close', onRequestClose);
+    res.off('close', onResponseClose);
+  };
+};
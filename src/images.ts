@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+export interface ImageData {
+  readonly data: Uint8Array;
+  readonly mimeType: string;
+}
+
+/**
+ * Shape of the runtime `LanguageModelDataPart` for images; the bundled @types/vscode does not declare it.
+ */
+export interface LanguageModelImagePart {
+  readonly mimeType: string;
+  readonly data: Uint8Array;
+}
+
+interface DataPartConstructor {
+  image(data: Uint8Array, mimeType: string): LanguageModelImagePart;
+}
+
+const MIME_BY_EXTENSION: Readonly<Record<string, string>> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+};
+
+const SUPPORTED_MIME_TYPES = new Set(Object.values(MIME_BY_EXTENSION));
+
+const DATA_URL_PATTERN = /^data:([^;,]+)(;base64)?,(.*)$/s;
+
+/**
+ * `LanguageModelDataPart` only exists in newer VS Code builds; resolve it at runtime.
+ * Without it no image can be sent, whatever the model supports.
+ */
+const getDataPartConstructor = (): DataPartConstructor | undefined => {
+  const ctor = (vscode as unknown as { LanguageModelDataPart?: DataPartConstructor }).LanguageModelDataPart;
+  return typeof ctor?.image === 'function' ? ctor : undefined;
+};
+
+export const hasImagePartSupport = (): boolean => getDataPartConstructor() !== undefined;
+
+/**
+ * Checks that an image URL is a supported data URL or local image file; whether the file exists is
+ * only known once {@link loadImage} reads it.
+ * @returns An error message, or undefined when the URL is well-formed
+ */
+export const validateImageUrl = (url: string): string | undefined => {
+  if (url.startsWith('data:')) {
+    const match = DATA_URL_PATTERN.exec(url);
+    if (!match) return 'malformed data URL';
+    if (!SUPPORTED_MIME_TYPES.has(match[1].toLowerCase())) return `unsupported image type ${match[1]}`;
+    return undefined;
+  }
+  if (url.startsWith('file://')) {
+    let filePath: string;
+    try {
+      filePath = fileURLToPath(url);
+    } catch {
+      return 'malformed file URL';
+    }
+    if (!MIME_BY_EXTENSION[path.extname(filePath).toLowerCase()]) return `unsupported image file ${path.basename(filePath)}`;
+    return undefined;
+  }
+  return 'only data: and file:// image URLs are supported';
+};
+
+/**
+ * Loads image bytes from a data URL or a local file:// URL. Call {@link validateImageUrl} first.
+ * @throws Error with a client-facing message when the file cannot be read
+ */
+export const loadImage = async (url: string): Promise<ImageData> => {
+  if (url.startsWith('data:')) {
+    const match = DATA_URL_PATTERN.exec(url);
+    if (!match) throw new Error('malformed data URL');
+    const payload = match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]), 'utf8');
+    return { data: new Uint8Array(payload), mimeType: match[1].toLowerCase() };
+  }
+  const filePath = fileURLToPath(url);
+  const mimeType = MIME_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+  try {
+    return { data: new Uint8Array(await fs.readFile(filePath)), mimeType };
+  } catch {
+    throw new Error(`image file not found: ${filePath}`);
+  }
+};
+
+/**
+ * Wraps image bytes in a `LanguageModelDataPart`, or returns undefined when the API lacks data parts.
+ */
+export const createImagePart = (image: ImageData): LanguageModelImagePart | undefined =>
+  getDataPartConstructor()?.image(image.data, image.mimeType);
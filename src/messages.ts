@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
+import { state } from './state';
+import { createImagePart, type ImageData, type LanguageModelImagePart } from './images';
 
 export interface ChatMessage {
-  readonly role: 'system' | 'user' | 'assistant' | 'tool';
+  readonly role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
   readonly content?: string | MessageContent[] | null;
   readonly name?: string;
   readonly tool_calls?: ToolCall[];
@@ -41,6 +43,9 @@ export interface ChatCompletionRequest {
   readonly model?: string;
   readonly messages: ChatMessage[];
   readonly stream?: boolean;
+  readonly stream_options?: {
+    readonly include_usage?: boolean;
+  };
   readonly tools?: Tool[];
   readonly tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
   readonly parallel_tool_calls?: boolean;
@@ -48,6 +53,7 @@ export interface ChatCompletionRequest {
   readonly function_call?: 'none' | 'auto' | { name: string }; // Deprecated, use tool_choice instead
   readonly temperature?: number;
   readonly top_p?: number;
+  readonly top_k?: number; // Not part of the OpenAI API; accepted for other API shapes translated onto it
   readonly n?: number;
   readonly stop?: string | string[];
   readonly max_tokens?: number;
@@ -70,7 +76,7 @@ export interface ChatCompletionRequest {
   readonly [key: string]: unknown;
 }
 
-const VALID_ROLES = ['system', 'user', 'assistant', 'tool'] as const;
+const VALID_ROLES = ['system', 'developer', 'user', 'assistant', 'tool'] as const;
 type Role = typeof VALID_ROLES[number];
 const isValidRole = (role: unknown): role is Role => typeof role === 'string' && VALID_ROLES.includes(role as Role);
 
@@ -94,7 +100,7 @@ export const isChatMessage = (msg: unknown): msg is ChatMessage => {
     return hasContent || hasToolCalls || hasFunctionCall;
   }
   
-  // System and user messages must have content
+  // System, developer, and user messages must have content
   return candidate.content !== undefined && candidate.content !== null;
 };
 
@@ -125,9 +131,34 @@ export const convertFunctionsToTools = (functions?: ToolFunction[]): Tool[] => {
   }));
 };
 
+/**
+ * Extracts the URL from an OpenAI `image_url` content part (object or bare string form).
+ */
+const imageUrlOf = (part: unknown): string | undefined => {
+  if (!part || typeof part !== 'object') return undefined;
+  const candidate = part as { type?: unknown; image_url?: unknown };
+  if (candidate.type !== 'image_url') return undefined;
+  if (typeof candidate.image_url === 'string') return candidate.image_url;
+  if (candidate.image_url && typeof candidate.image_url === 'object') {
+    const url = (candidate.image_url as { url?: unknown }).url;
+    return typeof url === 'string' ? url : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Lists every image URL in user message content, for capability checks and validation before conversion.
+ */
+export const collectImageUrls = (messages: readonly ChatMessage[]): string[] =>
+  messages
+    .filter((m) => m.role === 'user' && Array.isArray(m.content))
+    .flatMap((m) => (m.content as MessageContent[]).map(imageUrlOf))
+    .filter((url): url is string => url !== undefined);
+
 const toText = (content: unknown): string => {
   if (typeof content === 'string') return content;
-  if (Array.isArray(content)) return content.map(toText).join('\n');
+  // Image parts never become prompt text; they are sent as data parts by toUserContent
+  if (Array.isArray(content)) return content.filter((c) => imageUrlOf(c) === undefined).map(toText).join('\n');
   if (content && typeof content === 'object' && 'text' in content) {
     const textVal = (content as { text?: unknown }).text;
     if (typeof textVal === 'string') return textVal;
@@ -139,74 +170,229 @@ const toText = (content: unknown): string => {
   }
 };
 
+type LMMessage = vscode.LanguageModelChatMessage | { role: 'user' | 'assistant'; content: string };
+
+interface ToolPartConstructors {
+  readonly TextPart: typeof vscode.LanguageModelTextPart;
+  readonly ToolCallPart: typeof vscode.LanguageModelToolCallPart;
+  readonly ToolResultPart: typeof vscode.LanguageModelToolResultPart;
+}
+
+/**
+ * Resolves the tool-calling part classes, which older VS Code builds do not ship.
+ */
+const getToolPartConstructors = (): ToolPartConstructors | undefined => {
+  const api = vscode as unknown as {
+    LanguageModelTextPart?: typeof vscode.LanguageModelTextPart;
+    LanguageModelToolCallPart?: typeof vscode.LanguageModelToolCallPart;
+    LanguageModelToolResultPart?: typeof vscode.LanguageModelToolResultPart;
+  };
+  if (!api.LanguageModelTextPart || !api.LanguageModelToolCallPart || !api.LanguageModelToolResultPart) {
+    return undefined;
+  }
+  return {
+    TextPart: api.LanguageModelTextPart,
+    ToolCallPart: api.LanguageModelToolCallPart,
+    ToolResultPart: api.LanguageModelToolResultPart,
+  };
+};
+
+// Tool call arguments arrive as a JSON string; LanguageModelToolCallPart expects an object
+const parseToolArguments = (args: string): object => {
+  try {
+    const parsed: unknown = JSON.parse(args || '{}');
+    return parsed !== null && typeof parsed === 'object' ? parsed : { value: parsed };
+  } catch {
+    return { raw: args };
+  }
+};
+
+type UserContent = string | (vscode.LanguageModelTextPart | LanguageModelImagePart)[];
+
+/**
+ * Converts user content to text, or to interleaved text and image parts when it carries images
+ * and the running VS Code supports data parts.
+ */
+const toUserContent = (
+  content: unknown,
+  prefix: string,
+  parts: ToolPartConstructors | undefined,
+  images: ReadonlyMap<string, ImageData>
+): UserContent => {
+  const text = toText(content);
+  if (!parts || !Array.isArray(content) || !content.some((c) => imageUrlOf(c) !== undefined)) {
+    return prefix + text;
+  }
+  const result: (vscode.LanguageModelTextPart | LanguageModelImagePart)[] = prefix ? [new parts.TextPart(prefix)] : [];
+  for (const item of content) {
+    const url = imageUrlOf(item);
+    const image = url !== undefined ? images.get(url) : undefined;
+    const imagePart = image ? createImagePart(image) : undefined;
+    if (imagePart) {
+      result.push(imagePart);
+    } else if (url === undefined) {
+      result.push(new parts.TextPart(toText(item)));
+    }
+  }
+  return result;
+};
+
+const toolCallsText = (toolCalls: readonly ToolCall[]): string =>
+  toolCalls.map(tc => `[TOOL_CALL:${tc.id}] ${tc.function.name}(${tc.function.arguments})`).join('\n');
+
+/**
+ * Plain-text rendering of a message (content plus tool calls), used for token counting.
+ */
+export const messageText = (message: ChatMessage): string => {
+  const text = message.content ? toText(message.content) : '';
+  const calls = message.tool_calls?.length ? toolCallsText(message.tool_calls) : '';
+  return calls ? `${text}\n${calls}` : text;
+};
+
+/**
+ * System and developer messages both carry instructions; developer is the newer OpenAI name for system.
+ */
+export const isInstructionMessage = (message: ChatMessage): boolean =>
+  message.role === 'system' || message.role === 'developer';
+
+/**
+ * Resolves the native system role. The runtime enum has `System` even on stable VS Code, but
+ * `sendRequest` only accepts it from extensions that declare the `languageModelSystem` proposal;
+ * everyone else gets the `[SYSTEM]` preamble.
+ */
+const getSystemRole = (): vscode.LanguageModelChatMessageRole | undefined => {
+  if (!state.enabledApiProposals?.includes('languageModelSystem')) return undefined;
+  const roles = (vscode as unknown as { LanguageModelChatMessageRole?: Record<string, unknown> }).LanguageModelChatMessageRole;
+  const system = roles?.System;
+  return typeof system === 'number' ? system as vscode.LanguageModelChatMessageRole : undefined;
+};
+
+const systemPreamble = (instructions: readonly string[]): string =>
+  instructions.map((text) => `[SYSTEM]\n${text}\n[/SYSTEM]\n\n`).join('');
+
+/**
+ * Keeps the last `histWindow` turns of the conversation (`bridge.historyMode` `turns`).
+ * Instructions are never trimmed; the window applies to user, assistant, and tool messages.
+ */
+export const selectHistoryWindow = (messages: readonly ChatMessage[], histWindow: number): ChatMessage[] => {
+  const conversation = messages.filter((m) => !isInstructionMessage(m));
+  const windowed = new Set(conversation.slice(-histWindow * 3)); // Increased window to account for tool messages
+  return messages.filter((m) => isInstructionMessage(m) || windowed.has(m));
+};
+
+/**
+ * Converts OpenAI chat messages to VS Code LM messages. The history is expected to be trimmed already.
+ * Every system/developer message is kept in its original position: as a native system message when
+ * the extension declares the system-role proposal, otherwise as a delimited preamble on the next user message.
+ * @param images - Image bytes by URL, loaded beforehand; image parts without an entry are dropped
+ */
 export const normalizeMessagesLM = (
   messages: readonly ChatMessage[],
-  histWindow: number
-): (vscode.LanguageModelChatMessage | { role: 'user' | 'assistant'; content: string })[] => {
-  const systemMessages = messages.filter((m) => m.role === 'system');
-  const systemMessage = systemMessages[systemMessages.length - 1];
-  
-  // Include user, assistant, and tool messages in conversation
-  const conversationMessages = messages.filter((m) => 
-    m.role === 'user' || m.role === 'assistant' || m.role === 'tool'
-  ).slice(-histWindow * 3); // Increased window to account for tool messages
-
+  images: ReadonlyMap<string, ImageData> = new Map()
+): LMMessage[] => {
   const lmMsg = (vscode as unknown as { LanguageModelChatMessage?: typeof vscode.LanguageModelChatMessage }).LanguageModelChatMessage;
   const userFactory = lmMsg?.User;
   const assistantFactory = lmMsg?.Assistant;
-  const hasFactories = Boolean(userFactory && assistantFactory);
+  const parts = userFactory && assistantFactory ? getToolPartConstructors() : undefined;
+  const systemRole = lmMsg ? getSystemRole() : undefined;
 
-  const result: (vscode.LanguageModelChatMessage | { role: 'user' | 'assistant'; content: string })[] = [];
-  let firstUserSeen = false;
+  const result: LMMessage[] = [];
+  // Call ids issued by assistant messages in the window; results for other ids fall back to text
+  const issuedCallIds = new Set<string>();
+  let pendingResults: vscode.LanguageModelToolResultPart[] = [];
+  let pendingInstructions: string[] = [];
 
-  for (const m of conversationMessages) {
-    if (m.role === 'user') {
-      let text = toText(m.content);
-      if (!firstUserSeen && systemMessage) {
-        text = `[SYSTEM]\n${toText(systemMessage.content)}\n\n[DIALOG]\nuser: ${text}`;
-        firstUserSeen = true;
+  const pushUser = (text: string): void => {
+    result.push(userFactory ? userFactory(text) : { role: 'user', content: text });
+  };
+
+  const flushToolResults = (): void => {
+    if (pendingResults.length > 0 && userFactory) {
+      result.push(userFactory(pendingResults));
+      pendingResults = [];
+    }
+  };
+
+  // Instructions not followed by a user message become a standalone preamble message
+  const flushInstructions = (): void => {
+    if (pendingInstructions.length > 0) {
+      pushUser(systemPreamble(pendingInstructions).trimEnd());
+      pendingInstructions = [];
+    }
+  };
+
+  for (const m of messages) {
+    if (isInstructionMessage(m)) {
+      flushToolResults();
+      const text = toText(m.content);
+      if (lmMsg && systemRole !== undefined) {
+        result.push(new lmMsg(systemRole, text));
+      } else {
+        pendingInstructions.push(text);
       }
-      result.push(userFactory ? userFactory(text) : { role: 'user', content: text });
-    } else if (m.role === 'assistant') {
-      // For assistant messages, we need to handle both content and tool calls
-      let text = '';
-      
-      if (m.content) {
-        text = toText(m.content);
+      continue;
+    }
+
+    if (m.role === 'tool' && parts && m.tool_call_id && issuedCallIds.has(m.tool_call_id)) {
+      // Consecutive tool messages answer the same assistant turn, so they share one user message
+      flushInstructions();
+      pendingResults.push(new parts.ToolResultPart(m.tool_call_id, [new parts.TextPart(toText(m.content ?? ''))]));
+      continue;
+    }
+    flushToolResults();
+
+    if (m.role === 'user') {
+      const prefix = systemPreamble(pendingInstructions);
+      pendingInstructions = [];
+      const content = toUserContent(m.content, prefix, parts, images);
+      if (userFactory) {
+        // The bundled typings predate data parts; User() accepts them at runtime
+        result.push(userFactory(content as string | vscode.LanguageModelTextPart[]));
+      } else {
+        result.push({ role: 'user', content: typeof content === 'string' ? content : prefix + toText(m.content) });
       }
-      
-      // If the assistant message has tool calls, format them appropriately
-      if (m.tool_calls && m.tool_calls.length > 0) {
-        const toolCallsText = m.tool_calls.map(tc => 
-          `[TOOL_CALL:${tc.id}] ${tc.function.name}(${tc.function.arguments})`
-        ).join('\n');
-        
+      continue;
+    }
+
+    flushInstructions();
+    if (m.role === 'assistant') {
+      const text = m.content ? toText(m.content) : '';
+      const toolCalls = m.tool_calls ?? [];
+
+      if (parts && assistantFactory && toolCalls.length > 0) {
+        const content: (vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart)[] = [];
         if (text) {
-          text += '\n' + toolCallsText;
-        } else {
-          text = toolCallsText;
+          content.push(new parts.TextPart(text));
         }
+        for (const tc of toolCalls) {
+          issuedCallIds.add(tc.id);
+          content.push(new parts.ToolCallPart(tc.id, tc.function.name, parseToolArguments(tc.function.arguments)));
+        }
+        result.push(assistantFactory(content));
+        continue;
+      }
+
+      // Text fallback for VS Code builds without tool-calling parts
+      let fallback = text;
+      if (toolCalls.length > 0) {
+        fallback = fallback ? `${fallback}\n${toolCallsText(toolCalls)}` : toolCallsText(toolCalls);
       }
       
       // Handle deprecated function_call format
-      if (!text && m.function_call) {
-        text = `[FUNCTION_CALL] ${m.function_call.name}(${m.function_call.arguments})`;
+      if (!fallback && m.function_call) {
+        fallback = `[FUNCTION_CALL] ${m.function_call.name}(${m.function_call.arguments})`;
       }
       
-      result.push(assistantFactory ? assistantFactory(text) : { role: 'assistant', content: text });
+      result.push(assistantFactory ? assistantFactory(fallback) : { role: 'assistant', content: fallback });
     } else if (m.role === 'tool') {
-      // Tool messages should be converted to user messages with tool result context
-      const toolResult = `[TOOL_RESULT:${m.tool_call_id}] ${toText(m.content)}`;
-      result.push(userFactory ? userFactory(toolResult) : { role: 'user', content: toolResult });
+      // No native parts, or no matching call in the window: pass the result as user text
+      pushUser(`[TOOL_RESULT:${m.tool_call_id}] ${toText(m.content)}`);
     }
   }
+  flushToolResults();
+  flushInstructions();
 
-  if (!firstUserSeen && systemMessage) {
-    const text = `[SYSTEM]\n${toText(systemMessage.content)}`;
-    result.unshift(userFactory ? userFactory(text) : { role: 'user', content: text });
-  }
-
-  if (result.length === 0) result.push(userFactory ? userFactory('') : { role: 'user', content: '' });
+  if (result.length === 0) pushUser('');
 
   return result;
 };
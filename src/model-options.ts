@@ -0,0 +1,91 @@
+/**
+ * Maps OpenAI-style sampling parameters onto `LanguageModelChatRequestOptions.modelOptions`.
+ *
+ * Each vendor table lists the request fields its provider understands and the option key to send them as.
+ * Fields missing from the table are reported back as ignored so clients can see what took effect.
+ */
+
+type OptionTable = Readonly<Record<string, string>>;
+
+const OPENAI_STYLE_OPTIONS: OptionTable = {
+  temperature: 'temperature',
+  top_p: 'top_p',
+  seed: 'seed',
+  presence_penalty: 'presence_penalty',
+  frequency_penalty: 'frequency_penalty',
+  max_tokens: 'max_tokens',
+  max_completion_tokens: 'max_tokens',
+  stop: 'stop',
+};
+
+const VENDOR_OPTION_TABLES: Readonly<Record<string, OptionTable>> = {
+  copilot: OPENAI_STYLE_OPTIONS,
+};
+
+// Conservative default for providers we know nothing about
+const DEFAULT_OPTION_TABLE: OptionTable = {
+  temperature: 'temperature',
+  top_p: 'top_p',
+  max_tokens: 'max_tokens',
+  max_completion_tokens: 'max_tokens',
+};
+
+/**
+ * Request fields treated as sampling parameters. Anything else on the body is part of the
+ * chat contract (messages, tools, stream, ...) and never reported as ignored.
+ */
+const SAMPLING_PARAMETERS = [
+  'temperature',
+  'top_p',
+  'top_k',
+  'seed',
+  'presence_penalty',
+  'frequency_penalty',
+  'logit_bias',
+  'logprobs',
+  'top_logprobs',
+  'n',
+  'max_tokens',
+  'max_completion_tokens',
+  'stop',
+] as const;
+
+// Enforced by the bridge itself even when the provider does not accept them (see output-limits)
+const BRIDGE_ENFORCED = new Set<string>(['max_tokens', 'max_completion_tokens', 'stop']);
+
+export interface ModelOptionsResult {
+  readonly modelOptions: Record<string, unknown>;
+  readonly ignored: string[];
+}
+
+const isDefault = (name: string, value: unknown): boolean =>
+  (name === 'n' && value === 1) || (name === 'logprobs' && value === false);
+
+/**
+ * Builds `modelOptions` for a model vendor from the sampling parameters present on a request.
+ * @param vendor - `LanguageModelChat.vendor` of the resolved model
+ * @param body - Request body carrying OpenAI-named parameters
+ */
+export const buildModelOptions = (vendor: string, body: Readonly<Record<string, unknown>>): ModelOptionsResult => {
+  const table = VENDOR_OPTION_TABLES[vendor] ?? DEFAULT_OPTION_TABLE;
+  const modelOptions: Record<string, unknown> = {};
+  const ignored: string[] = [];
+
+  for (const name of SAMPLING_PARAMETERS) {
+    const value = body[name];
+    if (value === undefined || value === null || isDefault(name, value)) {
+      continue;
+    }
+    const target = table[name];
+    if (target) {
+      // max_completion_tokens and max_tokens share a target; the newer field wins
+      if (!(target in modelOptions) || name === 'max_completion_tokens') {
+        modelOptions[target] = value;
+      }
+    } else if (!BRIDGE_ENFORCED.has(name)) {
+      ignored.push(name);
+    }
+  }
+
+  return { modelOptions, ignored };
+};
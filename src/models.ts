@@ -2,13 +2,18 @@ import * as vscode from 'vscode';
 import { state } from './state';
 import { updateStatus } from './status';
 import { verbose } from './log';
+import { hasImagePartSupport } from './images';
 
 // VS Code Language Model API (see selectChatModels docs in latest VS Code API reference)
 const hasLanguageModelAPI = (): boolean => typeof vscode.lm?.selectChatModels === 'function';
 
+/**
+ * Selects models by family, falling back to an exact model id so the ids listed by /v1/models resolve too.
+ */
 export const selectChatModels = async (family?: string): Promise<vscode.LanguageModelChat[]> => {
-  const selector: vscode.LanguageModelChatSelector | undefined = family ? { family } : undefined;
-  return vscode.lm.selectChatModels(selector);
+  if (!family) return vscode.lm.selectChatModels(undefined);
+  const byFamily = await vscode.lm.selectChatModels({ family });
+  return byFamily.length > 0 ? byFamily : vscode.lm.selectChatModels({ id: family });
 };
 
 export const getModel = async (force = false, family?: string): Promise<vscode.LanguageModelChat | undefined> => {
@@ -63,18 +68,50 @@ export const handleModelSelectionError = (error: unknown, family?: string): void
   verbose(`Model selection failed: ${msg}${fam}`);
 };
 
-export const listCopilotModels = async (): Promise<string[]> => {
+/**
+ * All Copilot chat models, one entry per LanguageModelChat; empty when none are available.
+ */
+export const listChatModels = async (): Promise<vscode.LanguageModelChat[]> => {
+  if (!hasLanguageModelAPI()) return [];
   try {
-    // Filter for Copilot models only, consistent with getModel behavior
-    const models = await vscode.lm.selectChatModels({ vendor: 'copilot' });
-    const ids = models.map((m: vscode.LanguageModelChat) => {
-      const normalized = m.family || m.id || m.name || 'copilot';
-      return `${normalized}`;
-    });
-    return ids.length ? ids : ['copilot'];
-  } catch {
-    return ['copilot'];
+    return await vscode.lm.selectChatModels({ vendor: 'copilot' });
+  } catch (e: unknown) {
+    verbose(`Model listing failed: ${e instanceof Error ? e.message : String(e)}`);
+    return [];
   }
 };
 
+/**
+ * Capability flags Copilot models expose at runtime; not yet part of the stable typings.
+ */
+interface RuntimeModelCapabilities {
+  readonly supportsImageToText?: boolean;
+  readonly supportsToolCalling?: boolean;
+}
+
+const getRuntimeCapabilities = (model: vscode.LanguageModelChat): RuntimeModelCapabilities | undefined =>
+  (model as vscode.LanguageModelChat & { capabilities?: RuntimeModelCapabilities }).capabilities;
+
+/**
+ * Output token limit, when the model exposes one at runtime (not part of the stable typings).
+ */
+export const getMaxOutputTokens = (model: vscode.LanguageModelChat): number | undefined => {
+  const value = (model as vscode.LanguageModelChat & { maxOutputTokens?: unknown }).maxOutputTokens;
+  return typeof value === 'number' && value > 0 ? value : undefined;
+};
+
+/**
+ * Whether the model advertises tool calling at runtime.
+ */
+export const supportsToolCalling = (model: vscode.LanguageModelChat): boolean =>
+  getRuntimeCapabilities(model)?.supportsToolCalling === true;
+
+/**
+ * Whether images can be sent to the model: it must advertise vision and the API must offer data parts.
+ * Both are runtime-only APIs missing from the bundled typings; VS Code builds without them report no
+ * vision support for any model.
+ */
+export const supportsImageInput = (model: vscode.LanguageModelChat): boolean =>
+  getRuntimeCapabilities(model)?.supportsImageToText === true && hasImagePartSupport();
+
 export const hasLMApi = hasLanguageModelAPI;
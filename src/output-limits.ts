@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { countTextTokens } from './usage';
+
+export interface OutputLimits {
+  readonly stop: readonly string[];
+  readonly maxTokens?: number;
+}
+
+export type LimitFinishReason = 'stop' | 'length';
+
+/**
+ * Applies stop sequences and an output token cap to streamed text.
+ * Text that could be the start of a stop sequence is held back until the next chunk disambiguates it.
+ */
+export interface OutputLimiter {
+  /** Feeds a text delta; resolves to the text that is safe to emit now. */
+  push(text: string): Promise<string>;
+  /** Releases held-back text once the stream ends. */
+  flush(): Promise<string>;
+  /** True once a stop sequence matched or the token cap was reached. */
+  readonly done: boolean;
+  /** Why the limiter ended the output, if it did. */
+  readonly finishReason: LimitFinishReason | undefined;
+  /** The stop sequence that ended the output, when `finishReason` is `stop`. */
+  readonly stopSequence: string | undefined;
+}
+
+/**
+ * Reads the OpenAI-style limits from a request; `max_completion_tokens` wins over the deprecated `max_tokens`.
+ */
+export const getOutputLimits = (body: {
+  readonly stop?: string | string[];
+  readonly max_tokens?: number;
+  readonly max_completion_tokens?: number;
+}): OutputLimits => {
+  const stop = (typeof body.stop === 'string' ? [body.stop] : body.stop ?? []).filter((s) => typeof s === 'string' && s.length > 0);
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+  return {
+    stop,
+    maxTokens: typeof maxTokens === 'number' && maxTokens > 0 ? Math.floor(maxTokens) : undefined,
+  };
+};
+
+/**
+ * Creates a limiter for one response.
+ * @param onLimitReached - Called once when output must end, typically to cancel the upstream request
+ */
+export const createOutputLimiter = (
+  model: vscode.LanguageModelChat,
+  limits: OutputLimits,
+  onLimitReached: () => void
+): OutputLimiter => {
+  const holdback = Math.max(0, ...limits.stop.map((s) => s.length - 1));
+  let buffer = '';
+  // Text emitted so far, with the exact token count of its first `countedLength` characters
+  let emitted = '';
+  let countedLength = 0;
+  let countedTokens = 0;
+  let finishReason: LimitFinishReason | undefined;
+  let stopSequence: string | undefined;
+
+  const finish = (reason: LimitFinishReason): void => {
+    if (finishReason) return;
+    finishReason = reason;
+    onLimitReached();
+  };
+
+  // Finds the longest prefix of `text` that still fits in the cap once appended to the emitted text
+  const fitToBudget = async (text: string, maxTokens: number): Promise<string> => {
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (await countTextTokens(model, emitted + text.slice(0, mid)) <= maxTokens) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return text.slice(0, low);
+  };
+
+  // A character is never less than a token, so uncounted text is bounded by its length and the
+  // model's tokenizer only runs on the accumulated text once that bound nears the cap.
+  const applyTokenCap = async (text: string): Promise<string> => {
+    if (limits.maxTokens === undefined || !text) return text;
+    const estimate = countedTokens + (emitted.length - countedLength) + text.length;
+    if (estimate < limits.maxTokens) {
+      emitted += text;
+      return text;
+    }
+    const tokens = await countTextTokens(model, emitted + text);
+    if (tokens < limits.maxTokens) {
+      emitted += text;
+      countedLength = emitted.length;
+      countedTokens = tokens;
+      return text;
+    }
+    const fitted = tokens === limits.maxTokens ? text : await fitToBudget(text, limits.maxTokens);
+    emitted += fitted;
+    finish('length');
+    return fitted;
+  };
+
+  const findStop = (text: string): { index: number; sequence?: string } => {
+    let earliest: { index: number; sequence?: string } = { index: -1 };
+    for (const sequence of limits.stop) {
+      const index = text.indexOf(sequence);
+      if (index >= 0 && (earliest.index < 0 || index < earliest.index)) earliest = { index, sequence };
+    }
+    return earliest;
+  };
+
+  return {
+    async push(text: string): Promise<string> {
+      if (finishReason) return '';
+      buffer += text;
+
+      const stop = findStop(buffer);
+      let ready: string;
+      if (stop.index >= 0) {
+        ready = buffer.slice(0, stop.index);
+        buffer = '';
+        const capped = await applyTokenCap(ready);
+        if (!finishReason) stopSequence = stop.sequence;
+        finish('stop');
+        return capped;
+      }
+
+      const splitAt = Math.max(0, buffer.length - holdback);
+      ready = buffer.slice(0, splitAt);
+      buffer = buffer.slice(splitAt);
+      return applyTokenCap(ready);
+    },
+    async flush(): Promise<string> {
+      if (finishReason) return '';
+      const rest = buffer;
+      buffer = '';
+      return applyTokenCap(rest);
+    },
+    get done(): boolean {
+      return finishReason !== undefined;
+    },
+    get finishReason(): LimitFinishReason | undefined {
+      return finishReason;
+    },
+    get stopSequence(): string | undefined {
+      return stopSequence;
+    },
+  };
+};
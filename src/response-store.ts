@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { getBridgeConfig } from './config';
+import { verbose } from './log';
+import type { AiSdkInputItem, AiSdkResponse } from './types/responses-types';
+
+const STORE_FILE = 'responses.json';
+
+/**
+ * A response recorded for `previous_response_id` chaining and GET /v1/responses/{id}.
+ */
+export interface StoredResponse {
+  readonly response: AiSdkResponse;
+  /** The full conversation the response was generated from, with any previous responses already expanded. */
+  readonly input: readonly AiSdkInputItem[];
+  /** Milliseconds since the epoch; drives age-based eviction. */
+  readonly storedAt: number;
+}
+
+interface StoreFile {
+  readonly responses: StoredResponse[];
+}
+
+// Insertion order doubles as age order, so the oldest entries are evicted first
+const responses = new Map<string, StoredResponse>();
+let storageUri: vscode.Uri | undefined;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const evictResponses = (): void => {
+  const config = getBridgeConfig();
+  const oldest = Date.now() - config.responseStoreMaxAgeMinutes * 60_000;
+  for (const [id, stored] of responses) {
+    if (stored.storedAt >= oldest && responses.size <= config.responseStoreMaxEntries) {
+      break;
+    }
+    responses.delete(id);
+  }
+};
+
+/**
+ * Writes the store to global storage when `bridge.persistResponses` is on.
+ * Writes are queued so a slow write never overwrites a newer one.
+ */
+const persistResponses = (): void => {
+  const uri = storageUri;
+  if (!uri || !getBridgeConfig().persistResponses) {
+    return;
+  }
+  const data = Buffer.from(JSON.stringify({ responses: [...responses.values()] } satisfies StoreFile));
+  pendingWrite = pendingWrite
+    .then(async () => {
+      await vscode.workspace.fs.createDirectory(uri);
+      await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(uri, STORE_FILE), data);
+    })
+    .catch((error) => verbose(`Response store write failed: ${error instanceof Error ? error.message : String(error)}`));
+};
+
+/**
+ * Background responses that were queued or running when the last session ended will never finish;
+ * they are loaded as failed so pollers stop waiting.
+ */
+const interruptedResponse = (stored: StoredResponse): StoredResponse => {
+  if (stored.response.status !== 'queued' && stored.response.status !== 'in_progress') {
+    return stored;
+  }
+  return {
+    ...stored,
+    response: {
+      ...stored.response,
+      status: 'failed',
+      error: { code: 'interrupted', message: 'The bridge stopped before this response finished.' },
+    },
+  };
+};
+
+/**
+ * Sets where stored responses are persisted and loads those saved by a previous session.
+ * @param uri - The extension's global storage location
+ */
+export const initResponseStore = async (uri: vscode.Uri): Promise<void> => {
+  storageUri = uri;
+  if (!getBridgeConfig().persistResponses) {
+    return;
+  }
+  try {
+    const raw = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(uri, STORE_FILE));
+    const file = JSON.parse(Buffer.from(raw).toString('utf8')) as Partial<StoreFile>;
+    for (const stored of Array.isArray(file.responses) ? file.responses : []) {
+      if (stored?.response?.id) {
+        responses.set(stored.response.id, interruptedResponse(stored));
+      }
+    }
+    evictResponses();
+    verbose(`Response store loaded ${responses.size} responses`);
+  } catch {
+    // Nothing persisted yet
+  }
+};
+
+export const saveResponse = (response: AiSdkResponse, input: readonly AiSdkInputItem[]): void => {
+  responses.delete(response.id);
+  responses.set(response.id, { response, input, storedAt: Date.now() });
+  evictResponses();
+  persistResponses();
+};
+
+export const getStoredResponse = (id: string): StoredResponse | undefined => {
+  evictResponses();
+  return responses.get(id);
+};
+
+/**
+ * @returns Whether a response with this id was stored
+ */
+export const deleteStoredResponse = (id: string): boolean => {
+  const deleted = responses.delete(id);
+  if (deleted) {
+    persistResponses();
+  }
+  return deleted;
+};
+
+/**
+ * The conversation so far for a `previous_response_id`: the stored input followed by the response's
+ * output items, which are valid input items as they stand.
+ * @returns undefined when the response is unknown or has been evicted
+ */
+export const expandPreviousResponse = (id: string): AiSdkInputItem[] | undefined => {
+  const stored = getStoredResponse(id);
+  return stored ? [...stored.input, ...stored.response.output] : undefined;
+};
@@ -0,0 +1,192 @@
+/**
+ * Minimal JSON Schema validator covering the keywords used by OpenAI structured outputs
+ * (type, enum/const, object and array shapes, string/number bounds, combinators, local $ref).
+ * Unknown keywords are ignored rather than rejected.
+ */
+
+type SchemaObject = { readonly [keyword: string]: unknown };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return isObject(value);
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+const deepEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Resolves local references such as "#/$defs/Item" or "#/definitions/Item"
+const resolveRef = (ref: string, root: unknown): unknown => {
+  if (!ref.startsWith('#')) return undefined;
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map((token) => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), root);
+};
+
+const validateNode = (value: unknown, schema: unknown, root: unknown, path: string, errors: string[]): void => {
+  if (schema === true || schema === undefined) return;
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+  if (!isObject(schema)) return;
+  const s = schema as SchemaObject;
+
+  if (typeof s.$ref === 'string') {
+    const target = resolveRef(s.$ref, root);
+    if (target === undefined) {
+      errors.push(`${path}: unresolvable $ref ${s.$ref}`);
+      return;
+    }
+    validateNode(value, target, root, path, errors);
+  }
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type as string[] : [s.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some((option) => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(s.enum)}`);
+  }
+  if ('const' in s && !deepEqual(s.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(s.const)}`);
+  }
+
+  validateCombinators(value, s, root, path, errors);
+
+  if (isObject(value)) validateObject(value, s, root, path, errors);
+  if (Array.isArray(value)) validateArray(value, s, root, path, errors);
+  if (typeof value === 'string') validateString(value, s, path, errors);
+  if (typeof value === 'number') validateNumber(value, s, path, errors);
+};
+
+const validateCombinators = (value: unknown, s: SchemaObject, root: unknown, path: string, errors: string[]): void => {
+  const passes = (sub: unknown): boolean => validateJsonSchema(value, sub, root, path).length === 0;
+
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf) validateNode(value, sub, root, path, errors);
+  }
+  if (Array.isArray(s.anyOf) && !s.anyOf.some(passes)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+  if (Array.isArray(s.oneOf) && s.oneOf.filter(passes).length !== 1) {
+    errors.push(`${path}: must match exactly one allowed schema`);
+  }
+  if (s.not !== undefined && passes(s.not)) {
+    errors.push(`${path}: matches a disallowed schema`);
+  }
+};
+
+// `in` would also match inherited keys such as `constructor` or `toString`
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+const validateObject = (
+  value: Record<string, unknown>,
+  s: SchemaObject,
+  root: unknown,
+  path: string,
+  errors: string[]
+): void => {
+  const properties = isObject(s.properties) ? s.properties : {};
+  if (Array.isArray(s.required)) {
+    for (const key of s.required as string[]) {
+      if (!hasOwn(value, key)) errors.push(`${path}: missing required property "${key}"`);
+    }
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = `${path}.${key}`;
+    if (hasOwn(properties, key)) {
+      validateNode(child, properties[key], root, childPath, errors);
+    } else if (s.additionalProperties === false) {
+      errors.push(`${path}: unexpected property "${key}"`);
+    } else if (isObject(s.additionalProperties)) {
+      validateNode(child, s.additionalProperties, root, childPath, errors);
+    }
+  }
+  const count = Object.keys(value).length;
+  if (typeof s.minProperties === 'number' && count < s.minProperties) {
+    errors.push(`${path}: must have at least ${s.minProperties} properties`);
+  }
+  if (typeof s.maxProperties === 'number' && count > s.maxProperties) {
+    errors.push(`${path}: must have at most ${s.maxProperties} properties`);
+  }
+};
+
+const validateArray = (value: unknown[], s: SchemaObject, root: unknown, path: string, errors: string[]): void => {
+  const prefixItems = Array.isArray(s.prefixItems) ? s.prefixItems : [];
+  value.forEach((item, index) => {
+    const itemSchema = index < prefixItems.length ? prefixItems[index] : s.items;
+    validateNode(item, itemSchema, root, `${path}[${index}]`, errors);
+  });
+  if (typeof s.minItems === 'number' && value.length < s.minItems) {
+    errors.push(`${path}: must have at least ${s.minItems} items`);
+  }
+  if (typeof s.maxItems === 'number' && value.length > s.maxItems) {
+    errors.push(`${path}: must have at most ${s.maxItems} items`);
+  }
+  if (s.uniqueItems === true && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) {
+    errors.push(`${path}: items must be unique`);
+  }
+};
+
+const validateString = (value: string, s: SchemaObject, path: string, errors: string[]): void => {
+  if (typeof s.minLength === 'number' && value.length < s.minLength) {
+    errors.push(`${path}: must be at least ${s.minLength} characters`);
+  }
+  if (typeof s.maxLength === 'number' && value.length > s.maxLength) {
+    errors.push(`${path}: must be at most ${s.maxLength} characters`);
+  }
+  if (typeof s.pattern === 'string') {
+    try {
+      if (!new RegExp(s.pattern, 'u').test(value)) errors.push(`${path}: must match pattern ${s.pattern}`);
+    } catch {
+      // An invalid pattern in the schema is the caller's problem, not the model's
+    }
+  }
+};
+
+const validateNumber = (value: number, s: SchemaObject, path: string, errors: string[]): void => {
+  if (typeof s.minimum === 'number' && value < s.minimum) errors.push(`${path}: must be >= ${s.minimum}`);
+  if (typeof s.maximum === 'number' && value > s.maximum) errors.push(`${path}: must be <= ${s.maximum}`);
+  if (typeof s.exclusiveMinimum === 'number' && value <= s.exclusiveMinimum) {
+    errors.push(`${path}: must be > ${s.exclusiveMinimum}`);
+  }
+  if (typeof s.exclusiveMaximum === 'number' && value >= s.exclusiveMaximum) {
+    errors.push(`${path}: must be < ${s.exclusiveMaximum}`);
+  }
+  if (typeof s.multipleOf === 'number' && s.multipleOf > 0 && !Number.isInteger(value / s.multipleOf)) {
+    errors.push(`${path}: must be a multiple of ${s.multipleOf}`);
+  }
+};
+
+/**
+ * Validates a parsed JSON value against a JSON Schema.
+ * @returns Human-readable errors with JSON paths; empty when the value is valid
+ */
+export const validateJsonSchema = (value: unknown, schema: unknown, root: unknown = schema, path = '$'): string[] => {
+  const errors: string[] = [];
+  validateNode(value, schema, root, path, errors);
+  return errors;
+};
@@ -10,6 +10,7 @@ export interface BridgeState {
   activeRequests: number;
   lastReason?: string;
   modelAttempted?: boolean; // whether we've attempted to resolve a model yet
+  enabledApiProposals?: readonly string[]; // `enabledApiProposals` declared in this extension's package.json
 }
 
 export const state: BridgeState = {
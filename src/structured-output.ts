@@ -0,0 +1,100 @@
+import { validateJsonSchema } from './schema';
+
+/**
+ * Structured output requested via `response_format` (or an equivalent field on other API shapes).
+ */
+export interface StructuredOutputSpec {
+  readonly kind: 'json_object' | 'json_schema';
+  readonly name?: string;
+  readonly schema?: object;
+  readonly strict: boolean;
+}
+
+export type StructuredOutputCheck =
+  | { readonly ok: true; readonly json: string }
+  | { readonly ok: false; readonly errors: string[] };
+
+interface ResponseFormat {
+  readonly type: string;
+  readonly json_schema?: {
+    readonly name?: string;
+    readonly schema?: object;
+    readonly strict?: boolean;
+  };
+}
+
+/**
+ * Maps an OpenAI `response_format` to a structured output spec; plain text formats return undefined.
+ */
+export const getStructuredOutputSpec = (format: ResponseFormat | undefined): StructuredOutputSpec | undefined => {
+  if (format?.type === 'json_object') {
+    return { kind: 'json_object', strict: false };
+  }
+  if (format?.type === 'json_schema') {
+    return {
+      kind: 'json_schema',
+      name: format.json_schema?.name,
+      schema: format.json_schema?.schema,
+      strict: format.json_schema?.strict === true,
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Prompt appended to the conversation so the model answers with bare JSON.
+ */
+export const structuredOutputInstructions = (spec: StructuredOutputSpec): string => {
+  const base = 'Respond with a single valid JSON value only. Do not wrap it in markdown code fences and do not add any text before or after it.';
+  if (spec.kind === 'json_object' || !spec.schema) {
+    return `${base} The top-level value must be a JSON object.`;
+  }
+  const name = spec.name ? ` named "${spec.name}"` : '';
+  const strictness = spec.strict
+    ? ' Include every required property, use exactly the declared types, and add no properties the schema does not declare.'
+    : '';
+  return `${base} The JSON must conform to the following JSON Schema${name}.${strictness}\n\n${JSON.stringify(spec.schema, null, 2)}`;
+};
+
+/**
+ * Follow-up prompt asking the model to fix output that failed validation.
+ */
+export const structuredOutputRepairPrompt = (errors: readonly string[]): string =>
+  `Your previous response was not valid:\n${errors.map((e) => `- ${e}`).join('\n')}\n\nRespond again with only the corrected JSON.`;
+
+const FENCED_JSON = /```(?:json)?\s*\n?([\s\S]*?)\n?```/;
+
+// Models sometimes wrap JSON in fences or prose; try progressively looser extractions
+const parseJsonCandidate = (text: string): { ok: true; value: unknown } | { ok: false } => {
+  const trimmed = text.trim();
+  const fenced = FENCED_JSON.exec(trimmed)?.[1];
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  const sliced = start >= 0 && end > start ? trimmed.slice(start, end + 1) : undefined;
+
+  for (const candidate of [trimmed, fenced, sliced]) {
+    if (candidate === undefined) continue;
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch {
+      // try the next candidate
+    }
+  }
+  return { ok: false };
+};
+
+/**
+ * Parses model output and validates it against the spec.
+ * @returns Canonical JSON text when valid, otherwise the validation errors
+ */
+export const checkStructuredOutput = (text: string, spec: StructuredOutputSpec): StructuredOutputCheck => {
+  const parsed = parseJsonCandidate(text);
+  if (!parsed.ok) {
+    return { ok: false, errors: ['response is not valid JSON'] };
+  }
+  if (spec.kind === 'json_object' && (typeof parsed.value !== 'object' || parsed.value === null || Array.isArray(parsed.value))) {
+    return { ok: false, errors: ['top-level value must be a JSON object'] };
+  }
+  const errors = spec.schema ? validateJsonSchema(parsed.value, spec.schema) : [];
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, json: JSON.stringify(parsed.value) };
+};
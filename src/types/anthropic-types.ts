@@ -0,0 +1,89 @@
+/**
+ * Anthropic Messages API compatible types for request and response handling
+ */
+
+/** Prompt caching hint; accepted on any block and ignored since the LM API has no equivalent. */
+export interface AnthropicCacheControl {
+  readonly cache_control?: { readonly type: string };
+}
+
+export interface AnthropicTextBlock extends AnthropicCacheControl {
+  readonly type: 'text';
+  readonly text: string;
+}
+
+export type AnthropicImageSource =
+  | { readonly type: 'base64'; readonly media_type: string; readonly data: string }
+  | { readonly type: 'url'; readonly url: string };
+
+export interface AnthropicImageBlock extends AnthropicCacheControl {
+  readonly type: 'image';
+  readonly source: AnthropicImageSource;
+}
+
+export interface AnthropicToolUseBlock extends AnthropicCacheControl {
+  readonly type: 'tool_use';
+  readonly id: string;
+  readonly name: string;
+  readonly input: unknown;
+}
+
+export interface AnthropicToolResultBlock extends AnthropicCacheControl {
+  readonly type: 'tool_result';
+  readonly tool_use_id: string;
+  readonly content?: string | (AnthropicTextBlock | AnthropicImageBlock)[];
+  readonly is_error?: boolean;
+}
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock;
+
+export interface AnthropicMessage {
+  readonly role: 'user' | 'assistant';
+  readonly content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool extends AnthropicCacheControl {
+  readonly name: string;
+  readonly description?: string;
+  readonly input_schema?: object;
+}
+
+export type AnthropicToolChoice =
+  | { readonly type: 'auto' | 'any' | 'none' }
+  | { readonly type: 'tool'; readonly name: string };
+
+export interface AnthropicRequest {
+  readonly model: string;
+  readonly system?: string | AnthropicTextBlock[];
+  readonly messages: AnthropicMessage[];
+  readonly max_tokens?: number;
+  readonly temperature?: number;
+  readonly top_p?: number;
+  readonly top_k?: number;
+  readonly stop_sequences?: string[];
+  readonly metadata?: { readonly user_id?: string };
+  readonly stream?: boolean;
+  readonly tools?: AnthropicTool[];
+  readonly tool_choice?: AnthropicToolChoice;
+}
+
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
+
+export interface AnthropicUsage {
+  readonly input_tokens: number;
+  readonly output_tokens: number;
+}
+
+export type AnthropicErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'permission_error'
+  | 'not_found_error'
+  | 'request_too_large'
+  | 'rate_limit_error'
+  | 'api_error'
+  | 'overloaded_error';
@@ -2,6 +2,8 @@
  * OpenAI API compatible types for request and response handling
  */
 
+import type { TokenUsage } from '../usage';
+
 export interface OpenAIToolCall {
   readonly id: string;
   readonly type: 'function';
@@ -21,10 +23,33 @@ export interface OpenAIMessage {
   };
 }
 
+/**
+ * Incremental tool call as streamed in `delta.tool_calls`; fragments are merged by `index`.
+ */
+export interface OpenAIToolCallDelta {
+  readonly index: number;
+  readonly id?: string;
+  readonly type?: 'function';
+  readonly function?: {
+    readonly name?: string;
+    readonly arguments?: string;
+  };
+}
+
+export interface OpenAIDelta {
+  readonly role?: 'assistant';
+  readonly content?: string | null;
+  readonly tool_calls?: OpenAIToolCallDelta[];
+  readonly function_call?: {
+    readonly name?: string;
+    readonly arguments?: string;
+  };
+}
+
 export interface OpenAIChoice {
   readonly index: number;
   readonly message?: OpenAIMessage;
-  readonly delta?: Partial<OpenAIMessage>;
+  readonly delta?: OpenAIDelta;
   readonly finish_reason: 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'function_call' | null;
 }
 
@@ -34,11 +59,7 @@ export interface OpenAIResponse {
   readonly created: number;
   readonly model: string;
   readonly choices: OpenAIChoice[];
-  readonly usage?: {
-    readonly prompt_tokens: number;
-    readonly completion_tokens: number;
-    readonly total_tokens: number;
-  };
+  readonly usage?: TokenUsage;
 }
 
 export interface ChatCompletionContext {
@@ -47,6 +68,8 @@ export interface ChatCompletionContext {
   readonly created: number;
   readonly hasTools: boolean;
   readonly isStreaming: boolean;
+  readonly includeUsage: boolean;
+  readonly legacyFunctions: boolean;
 }
 
 export interface ProcessedResponseData {
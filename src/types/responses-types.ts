@@ -0,0 +1,145 @@
+/**
+ * OpenAI Responses API compatible types (the format used by the Vercel AI SDK)
+ */
+
+export interface AiSdkTextPart {
+  type: 'input_text' | 'output_text';
+  text: string;
+  annotations?: unknown[];
+}
+
+/** An image given by URL or data URL; uploaded `file_id`s cannot be resolved by the bridge. */
+export interface AiSdkImagePart {
+  type: 'input_image';
+  image_url?: string;
+  file_id?: string;
+  detail?: 'low' | 'high' | 'auto';
+}
+
+/** A file attachment; the LM API has no equivalent, so these are rejected. */
+export interface AiSdkFilePart {
+  type: 'input_file';
+  file_id?: string;
+  file_data?: string;
+  filename?: string;
+}
+
+export type AiSdkContentPart = AiSdkTextPart | AiSdkImagePart | AiSdkFilePart;
+
+export interface AiSdkMessage {
+  type?: 'message';
+  role: 'user' | 'assistant' | 'system' | 'developer';
+  content: string | AiSdkContentPart[];
+}
+
+/** A tool call the model made in an earlier step, replayed by the client. */
+export interface AiSdkFunctionCallItem {
+  type: 'function_call';
+  id?: string;
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+/** The client's result for a tool call. */
+export interface AiSdkFunctionCallOutputItem {
+  type: 'function_call_output';
+  call_id: string;
+  output: string | AiSdkContentPart[];
+}
+
+export type AiSdkInputItem = AiSdkMessage | AiSdkFunctionCallItem | AiSdkFunctionCallOutputItem;
+
+/** Responses API tools are flat; only `function` tools can be offered to the LM API. */
+export interface AiSdkTool {
+  type: string;
+  name?: string;
+  description?: string;
+  parameters?: object;
+  strict?: boolean;
+}
+
+export type AiSdkToolChoice = 'none' | 'auto' | 'required' | { type: string; name?: string };
+
+/** `text.format`: plain text, or JSON output enforced like chat `response_format`. */
+export type AiSdkTextFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name: string; schema: object; strict?: boolean; description?: string };
+
+export interface AiSdkRequest {
+  model: string;
+  /** A string is shorthand for a single user message. */
+  input: string | AiSdkInputItem[];
+  /** System prompt for this request; not carried over by `previous_response_id`. */
+  instructions?: string;
+  temperature?: number;
+  top_p?: number;
+  max_output_tokens?: number;
+  stream?: boolean;
+  /** Continues the conversation recorded for this response id instead of resending it. */
+  previous_response_id?: string;
+  /** Whether to record this response for `previous_response_id` and GET; defaults to true. */
+  store?: boolean;
+  /** Return `queued` at once and generate without holding the connection; poll GET /v1/responses/{id}. */
+  background?: boolean;
+  tools?: AiSdkTool[];
+  tool_choice?: AiSdkToolChoice;
+  parallel_tool_calls?: boolean;
+  text?: { format?: AiSdkTextFormat };
+  // Other fields from AI SDK
+  [key: string]: unknown;
+}
+
+export interface AiSdkOutputContentPart {
+  type: 'output_text';
+  text: string;
+  annotations: unknown[];
+}
+
+export interface AiSdkOutputMessage {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  content: AiSdkOutputContentPart[];
+}
+
+export interface AiSdkOutputFunctionCall {
+  id: string;
+  type: 'function_call';
+  call_id: string;
+  name: string;
+  arguments: string;
+  status: 'completed';
+}
+
+export type AiSdkOutputItem = AiSdkOutputMessage | AiSdkOutputFunctionCall;
+
+export interface AiSdkUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export type AiSdkResponseStatus = 'queued' | 'in_progress' | 'completed' | 'incomplete' | 'failed' | 'cancelled';
+
+export interface AiSdkResponse {
+  id: string;
+  model: string;
+  object: 'response';
+  created: number;
+  created_at?: number;  // Unix timestamp in seconds
+  status: AiSdkResponseStatus;
+  incomplete_details: { reason: 'max_output_tokens' } | null;
+  previous_response_id: string | null;
+  background: boolean;
+  /** Why a `failed` response failed. */
+  error: { code: string; message: string } | null;
+  output: AiSdkOutputItem[];
+  usage: AiSdkUsage | null;
+}
+
+/**
+ * Streaming event as sent over SSE; `sequence_number` is assigned by the event writer.
+ */
+export type AiSdkStreamEvent = { type: string; [key: string]: unknown };
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { verbose } from './log';
+
+export interface TokenUsage {
+  readonly prompt_tokens: number;
+  readonly completion_tokens: number;
+  readonly total_tokens: number;
+}
+
+type CountableMessage = vscode.LanguageModelChatMessage | { role: 'user' | 'assistant'; content: string };
+
+// Rough fallback used only when the model tokenizer is unavailable (≈4 characters per token)
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const isLanguageModelMessage = (message: CountableMessage): message is vscode.LanguageModelChatMessage =>
+  typeof message.content !== 'string';
+
+const messageText = (message: CountableMessage): string => {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map((part) => ('value' in part ? String(part.value) : ''))
+    .join('');
+};
+
+/**
+ * Counts tokens in a string with the model's own tokenizer.
+ * Falls back to a character-based estimate if the tokenizer call fails.
+ */
+export const countTextTokens = async (
+  model: vscode.LanguageModelChat,
+  text: string,
+  token?: vscode.CancellationToken
+): Promise<number> => {
+  if (!text) return 0;
+  try {
+    return await model.countTokens(text, token);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    verbose(`countTokens failed, estimating: ${msg}`);
+    return estimateTokens(text);
+  }
+};
+
+/**
+ * Counts prompt tokens for a request: every message plus the serialized tool definitions.
+ */
+export const countPromptTokens = async (
+  model: vscode.LanguageModelChat,
+  messages: readonly CountableMessage[],
+  tools: readonly vscode.LanguageModelChatTool[] = [],
+  token?: vscode.CancellationToken
+): Promise<number> => {
+  const counts = await Promise.all(messages.map(async (message) => {
+    if (!isLanguageModelMessage(message)) {
+      return countTextTokens(model, message.content, token);
+    }
+    try {
+      return await model.countTokens(message, token);
+    } catch {
+      return countTextTokens(model, messageText(message), token);
+    }
+  }));
+  const toolTokens = tools.length > 0 ? await countTextTokens(model, JSON.stringify(tools), token) : 0;
+  return counts.reduce((sum, n) => sum + n, 0) + toolTokens;
+};
+
+export const createUsage = (promptTokens: number, completionTokens: number): TokenUsage => ({
+  prompt_tokens: promptTokens,
+  completion_tokens: completionTokens,
+  total_tokens: promptTokens + completionTokens,
+});